@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { ComputedProperty, computed } from './ComputedProperty.js';
+import { ObservableProperty } from './ObservableProperty.js';
+import { StatefulProperty } from './StatefulProperty.js';
+import { MemoryStorage } from './stores/MemoryStorage.js';
+
+describe('ComputedProperty', () => {
+
+	it('derives its value from the dependency values', () => {
+
+		const firstName = new ObservableProperty<string>();
+		const lastName = new StatefulProperty<string>({ storage: new MemoryStorage(), key: 'last-name' });
+
+		firstName.set('Jane');
+
+		const fullName = computed([firstName, lastName], (first, last) => [first, last].filter(Boolean).join(' '));
+
+		expect(fullName.get()).toBe('Jane');
+
+		lastName.set('Doe');
+
+		expect(fullName.get()).toBe('Jane Doe');
+		expect(fullName.exists()).toBe(true);
+	});
+
+	it('only notifies subscribers when the computed value structurally changes', () => {
+
+		const items = new ObservableProperty<number[]>();
+		const summary = new ComputedProperty({ dependencies: [items], compute: (values): { count: number } => ({ count: values?.length ?? 0 }) });
+		const handler = vi.fn();
+
+		summary.subscribe(handler);
+
+		items.set([1, 2]);
+		items.set([3, 4]);
+		items.set([5]);
+
+		expect(handler).toHaveBeenCalledTimes(2);
+		expect(handler).toHaveBeenNthCalledWith(1, { count: 2 }, { value: { count: 2 }, previous: { count: 0 }, source: 'set' });
+		expect(handler).toHaveBeenNthCalledWith(2, { count: 1 }, { value: { count: 1 }, previous: { count: 2 }, source: 'set' });
+	});
+
+	it('stops recomputing when disposed', () => {
+
+		const count = new ObservableProperty<number>();
+		const doubled = computed([count], value => (value ?? 0) * 2);
+
+		count.set(2);
+		doubled.dispose();
+		count.set(3);
+
+		expect(doubled.get()).toBe(4);
+	});
+
+	it('requires at least one dependency', () => {
+
+		expect(() => computed([], () => 1)).toThrow(/requires one or more "dependencies"/);
+	});
+});
\ No newline at end of file
@@ -0,0 +1,296 @@
+import type { ImmutableMode, PropertyChange, PropertyChangeHandler, PropertyChangeSource, PropertySelectHandler, PropertySelectOptions, PropertySubscribeOptions } from './types.js';
+import type { ReadableProperty } from './types/ReadableProperty.js';
+import type { InteropObservable } from './types/InteropObservable.js';
+import type { Subscription } from './types/Subscription.js';
+
+import { StateManager } from './StateManager.js';
+import { addSubscriber } from './utilities/addSubscriber.js';
+import { deepCopy } from './utilities/deepCopy.js';
+import { deepEqual } from './utilities/deepEqual.js';
+import { deepFreeze } from './utilities/deepFreeze.js';
+import { isDefined } from './utilities/isDefined.js';
+import { notifySubscribers, PropertySubscriber } from './utilities/notifySubscribers.js';
+import { toAsyncIterator } from './utilities/toAsyncIterator.js';
+import { OBSERVABLE_KEY, toInteropObservable } from './utilities/toInteropObservable.js';
+
+/**
+ * The values of a list of properties, in the same order as the properties.
+ */
+export type PropertyValues<D extends ReadableProperty<unknown>[]> = { [K in keyof D]: D[K] extends ReadableProperty<infer V> ? V : never };
+
+/**
+ * Read-only property wrapper that derives its value from one or more other properties, and can be observed for changes.
+ * 
+ * The value is recomputed whenever the value of a dependency is set, and subscribers are only notified when the computed value
+ * structurally changes.
+ * 
+ * ```js
+ * import { ComputedProperty, ObservableProperty } from '@capitec/omni-state';
+ * 
+ * const firstName = new ObservableProperty<string>();
+ * const lastName = new ObservableProperty<string>();
+ * 
+ * const fullName = new ComputedProperty({ dependencies: [firstName, lastName], compute: (first, last) => `${first} ${last}` });
+ * ```
+ */
+export class ComputedProperty<T, D extends ReadableProperty<unknown>[] = ReadableProperty<unknown>[]> implements ReadableProperty<T> {
+
+	// ----------
+	// PROPERTIES
+	// ----------
+
+	/**
+	 * The computed property value.
+	 */
+	private _value!: T;
+
+	/**
+	 * The list of subscribers who are observing the property.
+	 */
+	private readonly _subscribers: PropertySubscriber<T>[];
+
+	/**
+	 * The properties the value is derived from.
+	 */
+	private _dependencies: D;
+
+	/**
+	 * The function to derive the value from the dependency values with.
+	 */
+	private _compute: (...values: PropertyValues<D>) => T;
+
+	/**
+	 * The subscriber registered on each dependency to recompute the value when the dependency changes.
+	 */
+	private _dependencyListener: PropertyChangeHandler<unknown>;
+
+	/**
+	 * How the property protects its value from being modified by reference, if not the global `StateManager.immutable` mode.
+	 */
+	private _immutable?: ImmutableMode;
+
+	// ------------
+	// CONSTRUCTORS
+	// ------------
+
+	/**
+	 * Initializes the property.
+	 * 
+	 * @param args - The property arguments.
+	 * - dependencies: The properties to derive the value from.
+	 * - compute: The function to derive the value with, called with the value of each dependency, in the same order as the dependencies.
+	 * - immutable: How to protect the value from being modified by reference, i.e. "freeze" or "copy", defaults to the global `StateManager.immutable` mode.
+	 */
+	constructor({ dependencies, compute, immutable }: { dependencies: [...D], compute: (...values: PropertyValues<D>) => T, immutable?: ImmutableMode }) {
+
+		// Validate the property parameters.
+		if (!Array.isArray(dependencies) || dependencies.length === 0) {
+			throw new Error(`ComputedProperty - requires one or more "dependencies" to be specified, e.g. [firstName, lastName].`);
+		}
+
+		if (typeof compute !== 'function') {
+			throw new Error(`ComputedProperty - requires a "compute" function to be specified, e.g. (firstName, lastName) => \`\${firstName} \${lastName}\`.`);
+		}
+
+		// Set default property values.
+		this._subscribers = [];
+		this._dependencies = dependencies as D;
+		this._compute = compute;
+		this._immutable = immutable;
+		this._dependencyListener = (value: unknown, change: PropertyChange<unknown>): void => this._recompute(change.source);
+
+		// Compute the initial value, and recompute it whenever a dependency changes.
+		this._value = this._computeValue();
+
+		for (const dependency of this._dependencies) {
+			dependency.subscribe(this._dependencyListener);
+		}
+	}
+
+	// ----------------
+	// PUBLIC FUNCTIONS
+	// ----------------
+
+	/**
+	 * Check if the property value is set.
+	 * 
+	 * @returns True if the value is set, otherwise false.
+	 */
+	exists(): boolean {
+
+		return isDefined(this._value);
+	}
+
+	/**
+	 * Get the property value, frozen in the "freeze" immutable mode, or copied in the "copy" immutable mode.
+	 * 
+	 * @returns The computed value.
+	 */
+	get(): T {
+
+		if (this._getImmutableMode() === 'copy') {
+			return deepCopy(this._value) as T;
+		}
+
+		return this._value;
+	}
+
+	/**
+	 * Registers a subscriber to listen for property value changes.
+	 * 
+	 * @param handler - The function to call when the property value changes.
+	 * @param options - The subscriber options.
+	 * - signal: The signal to unsubscribe the subscriber with when aborted, e.g. when a component is removed.
+	 * - once: Whether to unsubscribe the subscriber after it is notified once, defaults to false.
+	 * - immediate: Whether to notify the subscriber of the current property value when subscribed, defaults to false.
+	 * 
+	 * @returns The subscription, which can be called or disposed to unsubscribe the subscriber.
+	 */
+	subscribe(handler: PropertyChangeHandler<T>, options?: PropertySubscribeOptions): Subscription;
+
+	/**
+	 * Registers a subscriber to listen for changes to a slice of the property value, e.g. to only observe the fields of a large
+	 * state object that a component depends on.
+	 * 
+	 * @param handler - The function to call when the selected slice of the property value changes.
+	 * @param options - The subscriber options.
+	 * - select: The function to select the observed slice of the property value with.
+	 * - equals: The function to compare the previous and new selected slice with, defaults to a shallow equality check.
+	 * - signal: The signal to unsubscribe the subscriber with when aborted, e.g. when a component is removed.
+	 * - once: Whether to unsubscribe the subscriber after it is notified once, defaults to false.
+	 * - immediate: Whether to notify the subscriber of the current selected slice when subscribed, defaults to false.
+	 * 
+	 * @returns The subscription, which can be called or disposed to unsubscribe the subscriber.
+	 */
+	subscribe<S>(handler: PropertySelectHandler<T, S>, options: PropertySelectOptions<T, S> & PropertySubscribeOptions): Subscription;
+
+	subscribe<S>(handler: PropertyChangeHandler<T> | PropertySelectHandler<T, S>, options: Partial<PropertySelectOptions<T, S>> & PropertySubscribeOptions = {}): Subscription {
+
+		return addSubscriber(this._subscribers, handler, options as Partial<PropertySelectOptions<T, unknown>>, this._value, this._getImmutableMode());
+	}
+
+	/**
+	 * Removes a registered property value change subscriber.
+	 * 
+	 * @param handler - The function to call when the property value changes.
+	 * 
+	 * @returns Nothing.
+	 */
+	unsubscribe(handler: PropertyChangeHandler<T> | PropertySelectHandler<T, never>): void {
+
+		this._subscribers.filter(subscriber => subscriber.handler === handler).forEach(subscriber => subscriber.unsubscribe());
+	}
+
+	/**
+	 * Stops recomputing the value by unsubscribing from all dependencies, and removes all subscribers. The last computed value remains available.
+	 * 
+	 * @returns Nothing.
+	 */
+	dispose(): void {
+
+		for (const dependency of this._dependencies) {
+			dependency.unsubscribe(this._dependencyListener);
+		}
+
+		[...this._subscribers].forEach(subscriber => subscriber.unsubscribe());
+	}
+
+	/**
+	 * Iterates each new property value, e.g. with a `for await` loop, until the loop is exited.
+	 * 
+	 * @returns The async iterator.
+	 */
+	[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+
+		return toAsyncIterator(this);
+	}
+
+	/**
+	 * Gets a minimal Observable that emits each new property value, allowing the property to be consumed by Observable libraries,
+	 * e.g. with `from(property)` in RxJS. Also available under `Symbol.observable`, when defined.
+	 * 
+	 * @returns The interop Observable.
+	 */
+	['@@observable'](): InteropObservable<T> {
+
+		return toInteropObservable(this);
+	}
+
+	// -----------------
+	// PRIVATE FUNCTIONS
+	// -----------------
+
+	/**
+	 * Derives the value from the current dependency values, freezing a copy of it in the "freeze" immutable mode, as it may refer to
+	 * the dependency values.
+	 * 
+	 * @returns The computed value.
+	 */
+	private _computeValue(): T {
+
+		const values = this._dependencies.map(dependency => dependency.get()) as PropertyValues<D>;
+		const value = this._compute(...values);
+
+		if (this._getImmutableMode() === 'freeze') {
+			return deepFreeze(deepCopy(value) as object) as T;
+		}
+
+		return value;
+	}
+
+	/**
+	 * Recomputes the value, notifying subscribers if the value structurally changed.
+	 * 
+	 * @param source - The source of the dependency change that caused the value to be recomputed.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _recompute(source: PropertyChangeSource): void {
+
+		const value = this._computeValue();
+
+		if (deepEqual(value, this._value)) {
+			return;
+		}
+
+		const previous = this._value;
+
+		this._value = value;
+
+		// Notify subscribers that the property value has changed.
+		notifySubscribers(this._subscribers, this._value, previous, source, this._getImmutableMode());
+	}
+
+	/**
+	 * Gets how the property protects its value from being modified by reference, falling back to the global immutable mode.
+	 * 
+	 * @returns The immutable mode.
+	 */
+	private _getImmutableMode(): ImmutableMode {
+
+		return this._immutable ?? StateManager.immutable;
+	}
+}
+
+// Expose the interop Observable under `Symbol.observable` as well, when defined by the environment or a polyfill.
+if (OBSERVABLE_KEY !== '@@observable') {
+
+	Object.defineProperty(ComputedProperty.prototype, OBSERVABLE_KEY, {
+		value(this: ComputedProperty<unknown>): InteropObservable<unknown> {
+			return toInteropObservable(this);
+		}
+	});
+}
+
+/**
+ * Creates a read-only property that derives its value from one or more other properties.
+ * 
+ * @param dependencies - The properties to derive the value from.
+ * @param compute - The function to derive the value with, called with the value of each dependency, in the same order as the dependencies.
+ * 
+ * @returns The computed property.
+ */
+export function computed<T, D extends ReadableProperty<unknown>[]>(dependencies: [...D], compute: (...values: PropertyValues<D>) => T): ComputedProperty<T, D> {
+
+	return new ComputedProperty<T, D>({ dependencies, compute });
+}
\ No newline at end of file
@@ -0,0 +1,491 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { PropertyChange } from './types.js';
+
+import { ObservableProperty } from './ObservableProperty.js';
+import { StateManager } from './StateManager.js';
+
+/**
+ * Minimal stand-in for the browser `BroadcastChannel` API, delivering messages to all other channels with the same name.
+ */
+class FakeBroadcastChannel {
+
+	static channels: FakeBroadcastChannel[] = [];
+
+	onmessage: ((event: MessageEvent) => void) | null = null;
+
+	constructor(readonly name: string) {
+		FakeBroadcastChannel.channels.push(this);
+	}
+
+	postMessage(data: unknown): void {
+
+		const message = structuredClone(data);
+
+		FakeBroadcastChannel.channels
+			.filter(channel => channel !== this && channel.name === this.name)
+			.forEach(channel => channel.onmessage?.({ data: message } as MessageEvent));
+	}
+
+	close(): void {
+		FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter(channel => channel !== this);
+	}
+}
+
+describe('ObservableProperty', () => {
+
+	it('gets and sets the property value', () => {
+
+		const property = new ObservableProperty<{ firstName: string }>();
+
+		expect(property.exists()).toBe(false);
+
+		property.set({ firstName: 'Hello' });
+
+		expect(property.exists()).toBe(true);
+		expect(property.get()).toEqual({ firstName: 'Hello' });
+	});
+
+	it('notifies subscribers until unsubscribed', () => {
+
+		const property = new ObservableProperty<string>();
+		const handler = vi.fn();
+
+		property.subscribe(handler);
+		property.set('Hello');
+		property.unsubscribe(handler);
+		property.set('World');
+
+		expect(handler.mock.calls).toEqual([['Hello', { value: 'Hello', previous: undefined, source: 'set' }]]);
+	});
+
+	it('notifies subscribers of the resulting value when set with a function', () => {
+
+		const property = new ObservableProperty<{ count: number }>();
+		const handler = vi.fn();
+
+		property.set({ count: 1 });
+		property.subscribe(handler);
+		property.set(draft => {
+			if (draft) {
+				draft.count++;
+			}
+		});
+
+		expect(handler).toHaveBeenCalledWith({ count: 2 }, { value: { count: 2 }, previous: { count: 1 }, source: 'set' });
+	});
+
+	it('only notifies selector subscribers when the selected slice changes', () => {
+
+		const property = new ObservableProperty<{ user: { name: string }, items: number[] }>();
+		const handler = vi.fn();
+		const equalsHandler = vi.fn();
+
+		property.set({ user: { name: 'Jane' }, items: [] });
+		property.subscribe(handler, { select: value => value.user.name });
+		property.subscribe(equalsHandler, { select: value => value.items, equals: (a, b) => a?.length === b?.length });
+
+		property.set(draft => {
+			if (draft) {
+				draft.items.push(1);
+			}
+		});
+		property.set(draft => {
+			if (draft) {
+				draft.items[0] = 2;
+			}
+		});
+		property.set(draft => {
+			if (draft) {
+				draft.user.name = 'John';
+			}
+		});
+
+		expect(handler.mock.calls).toEqual([['John', expect.objectContaining({ value: { user: { name: 'John' }, items: [2] } })]]);
+		expect(equalsHandler.mock.calls).toEqual([[[1], expect.objectContaining({ source: 'set' })]]);
+
+		property.unsubscribe(handler);
+		property.set({ user: { name: 'Jim' }, items: [2] });
+
+		expect(handler).toHaveBeenCalledTimes(1);
+	});
+
+	it('returns a subscription to unsubscribe with', () => {
+
+		const property = new ObservableProperty<number>();
+		const first = vi.fn();
+		const second = vi.fn();
+		const third = vi.fn();
+
+		const firstSubscription = property.subscribe(first);
+		const secondSubscription = property.subscribe(second);
+		const thirdSubscription = property.subscribe(third);
+
+		property.set(1);
+
+		firstSubscription();
+		secondSubscription.unsubscribe();
+		const disposeSymbol = (Symbol as { dispose?: symbol }).dispose;
+
+		if (disposeSymbol) {
+			(thirdSubscription as unknown as Record<symbol, () => void>)[disposeSymbol]();
+		}
+
+		property.set(2);
+
+		expect(first.mock.calls).toEqual([[1, expect.anything()]]);
+		expect(second.mock.calls).toEqual([[1, expect.anything()]]);
+		expect(third).toHaveBeenCalledTimes(disposeSymbol ? 1 : 2);
+	});
+
+	it('supports the signal, once and immediate subscriber options', () => {
+
+		const property = new ObservableProperty<number>();
+		const controller = new AbortController();
+		const signalHandler = vi.fn();
+		const onceHandler = vi.fn();
+		const immediateHandler = vi.fn();
+
+		property.set(1);
+		property.subscribe(signalHandler, { signal: controller.signal });
+		property.subscribe(onceHandler, { once: true, immediate: true });
+		property.subscribe(immediateHandler, { immediate: true, select: (value: number) => value * 10 });
+
+		expect(onceHandler).toHaveBeenCalledWith(1, { value: 1, previous: 1, source: 'subscribe' });
+		expect(immediateHandler).toHaveBeenCalledWith(10, { value: 1, previous: 1, source: 'subscribe' });
+
+		property.set(2);
+		controller.abort();
+		property.set(3);
+
+		expect(signalHandler.mock.calls).toEqual([[2, expect.anything()]]);
+		expect(onceHandler).toHaveBeenCalledTimes(1);
+		expect(immediateHandler.mock.calls.map(([slice]) => slice as number)).toEqual([10, 20, 30]);
+
+		property.subscribe(signalHandler, { signal: controller.signal });
+		property.set(4);
+
+		expect(signalHandler).toHaveBeenCalledTimes(1);
+	});
+
+	it('removes all subscribers when disposed', () => {
+
+		const property = new ObservableProperty<number>();
+		const handler = vi.fn();
+
+		property.subscribe(handler);
+		property.subscribe(handler, { select: value => value });
+		property.dispose();
+		property.set(1);
+
+		expect(handler).not.toHaveBeenCalled();
+		expect(property.get()).toBe(1);
+	});
+
+	it('iterates each new value asynchronously until the loop is exited', async () => {
+
+		const property = new ObservableProperty<number>();
+		const values: number[] = [];
+
+		property.set(0);
+
+		const loop = (async (): Promise<void> => {
+
+			for await (const value of property) {
+
+				values.push(value);
+
+				if (value === 3) {
+					break;
+				}
+			}
+		})();
+
+		property.set(1);
+		property.set(2);
+		await Promise.resolve();
+		property.set(3);
+		property.set(4);
+
+		await loop;
+
+		expect(values).toEqual([1, 2, 3]);
+	});
+
+	it('exposes an interop Observable for Observable libraries', () => {
+
+		const property = new ObservableProperty<string>();
+		const observable = property['@@observable']();
+		const next = vi.fn();
+
+		const subscription = observable.subscribe({ next });
+
+		property.set('Hello');
+		subscription.unsubscribe();
+		property.set('World');
+
+		expect(next.mock.calls).toEqual([['Hello']]);
+		expect((observable as unknown as Record<string, () => unknown>)['@@observable']()).toBe(observable);
+	});
+
+	it('skips notifying unchanged values when enabled', () => {
+
+		const property = new ObservableProperty<{ count: number }>({ skipUnchanged: true });
+		const handler = vi.fn();
+
+		property.subscribe(handler);
+		property.set({ count: 1 });
+		property.set({ count: 1 });
+		property.set(draft => {
+			if (draft) {
+				draft.count = 1;
+			}
+		});
+
+		expect(handler).toHaveBeenCalledTimes(1);
+	});
+
+	describe('set function', () => {
+
+		it('shares unchanged nested values with the previous value', () => {
+
+			const property = new ObservableProperty<{ profile: { name: string }, settings: { theme: string } }>();
+
+			property.set({ profile: { name: 'Jane' }, settings: { theme: 'dark' } });
+
+			const previous = property.get();
+
+			property.set(draft => {
+				if (draft) {
+					draft.profile.name = 'John';
+				}
+			});
+
+			expect(property.get()).toEqual({ profile: { name: 'John' }, settings: { theme: 'dark' } });
+			expect(property.get().settings).toBe(previous.settings);
+			expect(previous.profile.name).toBe('Jane');
+		});
+
+		it('supports array and primitive values', () => {
+
+			const items = new ObservableProperty<number[]>();
+			const count = new ObservableProperty<number>();
+
+			items.set([3, 1]);
+			items.set(draft => {
+				if (draft) {
+					draft.push(2);
+					draft.sort();
+				}
+			});
+			count.set(1);
+			count.set(value => (value ?? 0) + 1);
+
+			expect(items.get()).toEqual([1, 2, 3]);
+			expect(count.get()).toBe(2);
+		});
+
+		it('passes undefined as the draft of a property without a value', () => {
+
+			const items = new ObservableProperty<number[]>();
+			const handler = vi.fn((draft: number[] | undefined) => [...(draft ?? []), 1]);
+
+			items.set(handler);
+
+			expect(handler).toHaveBeenCalledWith(undefined);
+			expect(items.get()).toEqual([1]);
+		});
+
+		it('replaces the value with the returned value', () => {
+
+			const property = new ObservableProperty<{ done: boolean }[]>();
+
+			property.set([{ done: true }, { done: false }]);
+			property.set(draft => draft?.filter(item => !item.done));
+
+			expect(property.get()).toEqual([{ done: false }]);
+		});
+
+		it('leaves the value unchanged when the function throws', () => {
+
+			const property = new ObservableProperty<{ a: number, b: number }>();
+			const handler = vi.fn();
+
+			property.set({ a: 1, b: 1 });
+			property.subscribe(handler);
+
+			expect(() => property.set(draft => {
+				if (draft) {
+					draft.a = 2;
+					throw new Error('failed');
+				}
+			})).toThrow('failed');
+
+			expect(property.get()).toEqual({ a: 1, b: 1 });
+			expect(handler).not.toHaveBeenCalled();
+		});
+
+		it('rejects changing the draft and returning a replacement value', () => {
+
+			const property = new ObservableProperty<{ count: number }>();
+
+			property.set({ count: 1 });
+
+			expect(() => property.set(draft => {
+				if (draft) {
+					draft.count = 2;
+				}
+				return { count: 3 };
+			})).toThrow(/not both/);
+		});
+	});
+
+	describe('immutable', () => {
+
+		afterEach(() => {
+			StateManager.immutable = false;
+		});
+
+		it('freezes the stored and emitted values in the freeze mode', () => {
+
+			const property = new ObservableProperty<{ items: number[] }>({ immutable: 'freeze' });
+			const handler = vi.fn();
+
+			property.subscribe(handler);
+			property.set({ items: [1] });
+			property.set(draft => {
+				if (draft) {
+					draft.items.push(2);
+				}
+			});
+
+			expect(property.get()).toEqual({ items: [1, 2] });
+			expect(() => property.get().items.push(3)).toThrow(TypeError);
+
+			const [value, change] = handler.mock.calls[1] as [{ items: number[] }, PropertyChange<{ items: number[] }>];
+
+			expect(Object.isFrozen(value.items)).toBe(true);
+			expect(Object.isFrozen(change.previous.items)).toBe(true);
+		});
+
+		it('leaves typed arrays mutable in the freeze mode', () => {
+
+			const property = new ObservableProperty<{ name: string, bytes: Uint8Array }>({ immutable: 'freeze' });
+
+			property.set({ name: 'avatar', bytes: new Uint8Array([1, 2, 3]) });
+
+			expect(property.get().bytes).toEqual(new Uint8Array([1, 2, 3]));
+			expect(Object.isFrozen(property.get())).toBe(true);
+			expect(Object.isFrozen(property.get().bytes)).toBe(false);
+		});
+
+		it('returns copies of the stored value in the copy mode', () => {
+
+			const property = new ObservableProperty<{ count: number }>({ immutable: 'copy' });
+
+			property.set({ count: 1 });
+			property.get().count = 2;
+
+			expect(property.get()).toEqual({ count: 1 });
+		});
+
+		it('falls back to the global mode', () => {
+
+			const property = new ObservableProperty<{ count: number }>();
+
+			StateManager.immutable = 'freeze';
+			property.set({ count: 1 });
+
+			expect(Object.isFrozen(property.get())).toBe(true);
+		});
+	});
+
+	describe('channel', () => {
+
+		beforeEach(() => {
+
+			FakeBroadcastChannel.channels = [];
+
+			vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+		});
+
+		afterEach(() => {
+
+			vi.unstubAllGlobals();
+			vi.restoreAllMocks();
+		});
+
+		it('publishes values set to other properties on the same channel', () => {
+
+			const first = new ObservableProperty<{ count: number }>({ channel: 'counter' });
+			const second = new ObservableProperty<{ count: number }>({ channel: 'counter' });
+			const other = new ObservableProperty<{ count: number }>({ channel: 'other' });
+			const handler = vi.fn();
+
+			second.subscribe(handler);
+
+			first.set({ count: 1 });
+
+			expect(second.get()).toEqual({ count: 1 });
+			expect(other.exists()).toBe(false);
+			expect(handler.mock.calls).toEqual([[{ count: 1 }, { value: { count: 1 }, previous: undefined, source: 'remote' }]]);
+		});
+
+		it('does not publish received values back over the channel', () => {
+
+			const first = new ObservableProperty<number>({ channel: 'counter' });
+			const second = new ObservableProperty<number>({ channel: 'counter' });
+			const postMessage = vi.spyOn(FakeBroadcastChannel.prototype, 'postMessage');
+
+			first.set(1);
+
+			expect(postMessage).toHaveBeenCalledTimes(1);
+			expect(second.get()).toBe(1);
+		});
+
+		it('ignores messages published by the property itself', () => {
+
+			const property = new ObservableProperty<number>({ channel: 'counter' });
+			const handler = vi.fn();
+
+			property.set(1);
+			property.subscribe(handler);
+
+			const channel = FakeBroadcastChannel.channels[0];
+
+			channel.onmessage?.({ data: { origin: (property as unknown as { _origin: string })._origin, timestamp: Date.now() + 1000, value: 2 } } as MessageEvent);
+
+			expect(property.get()).toBe(1);
+			expect(handler).not.toHaveBeenCalled();
+		});
+
+		it('keeps the most recent value when changes are made concurrently', () => {
+
+			const property = new ObservableProperty<string>({ channel: 'greeting' });
+			const channel = FakeBroadcastChannel.channels[0];
+
+			vi.spyOn(Date, 'now').mockReturnValue(1000);
+
+			property.set('local');
+
+			// An older change is ignored.
+			channel.onmessage?.({ data: { origin: 'zzz', timestamp: 999, value: 'older' } } as MessageEvent);
+
+			expect(property.get()).toBe('local');
+
+			// A change made at the same time is resolved by the highest origin id.
+			channel.onmessage?.({ data: { origin: '0000', timestamp: 1000, value: 'lower' } } as MessageEvent);
+
+			expect(property.get()).toBe('local');
+
+			channel.onmessage?.({ data: { origin: 'zzzz', timestamp: 1000, value: 'higher' } } as MessageEvent);
+
+			expect(property.get()).toBe('higher');
+
+			// A newer change is applied.
+			channel.onmessage?.({ data: { origin: '0000', timestamp: 1001, value: 'newer' } } as MessageEvent);
+
+			expect(property.get()).toBe('newer');
+		});
+	});
+});
\ No newline at end of file
@@ -1,8 +1,54 @@
-import type { PropertyChangeHandler, PropertySetHandler } from './types';
+import type { ImmutableMode, PropertyChangeHandler, PropertyChangeSource, PropertySelectHandler, PropertySelectOptions, PropertySetHandler, PropertySubscribeOptions } from './types';
+import type { InteropObservable } from './types/InteropObservable.js';
+import type { Subscription } from './types/Subscription.js';
 
+import { StateManager } from './StateManager.js';
+import { addSubscriber } from './utilities/addSubscriber.js';
+import { recordRollback, scheduleNotification } from './utilities/batchUpdates.js';
 import { isDefined } from './utilities/isDefined.js';
 import { isFunction } from './utilities/isFunction.js';
 import { deepCopy } from './utilities/deepCopy.js';
+import { deepEqual } from './utilities/deepEqual.js';
+import { deepFreeze } from './utilities/deepFreeze.js';
+import { notifySubscribers, PropertySubscriber } from './utilities/notifySubscribers.js';
+import { produceValue } from './utilities/produceValue.js';
+import { toAsyncIterator } from './utilities/toAsyncIterator.js';
+import { OBSERVABLE_KEY, toInteropObservable } from './utilities/toInteropObservable.js';
+
+/**
+ * The message published over a broadcast channel whenever a property value is set.
+ */
+type PropertyChannelMessage<T> = {
+
+	/**
+	 * The unique id of the property instance that set the value.
+	 */
+	origin: string;
+
+	/**
+	 * The time at which the value was set, in milliseconds since the epoch.
+	 */
+	timestamp: number;
+
+	/**
+	 * The new property value.
+	 */
+	value: T;
+};
+
+/**
+ * Creates a unique id to identify a property instance across browser tabs and frames.
+ * 
+ * @returns The unique id.
+ */
+function createOriginId(): string {
+
+	if (typeof globalThis.crypto?.randomUUID === 'function') {
+		return globalThis.crypto.randomUUID();
+	}
+
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
 
 /**
  * Property wrapper that can be observed for changes.
@@ -17,7 +63,38 @@ export class ObservableProperty<T> {
 	/**
 	 * The list of subscribers who are observing the property.
 	 */
-	private _subscribers: PropertyChangeHandler<T>[];
+	private readonly _subscribers: PropertySubscriber<T>[];
+
+	/**
+	 * The broadcast channel to publish and receive property value changes over, if enabled.
+	 */
+	private _channel?: BroadcastChannel;
+
+	/**
+	 * The unique id of the property instance, used to identify the messages it publishes over the broadcast channel.
+	 */
+	private _origin: string;
+
+	/**
+	 * The time and origin of the last property value change, used to resolve concurrent changes made by other browser tabs or frames.
+	 */
+	private _lastChange?: { timestamp: number, origin: string };
+
+	/**
+	 * The property value from before the change that subscribers are yet to be notified of, if any. Kept across multiple changes
+	 * made within a batch, so that subscribers receive the value from before the batch.
+	 */
+	private _pendingChange?: { previous: T };
+
+	/**
+	 * Whether to skip notifying subscribers when the property is set to a value that deep equals its current value.
+	 */
+	private _skipUnchanged: boolean;
+
+	/**
+	 * How the property protects its value from being modified by reference, if not the global `StateManager.immutable` mode.
+	 */
+	private _immutable?: ImmutableMode;
 
 	// ----------
 	// PROPERTIES
@@ -31,14 +108,31 @@ export class ObservableProperty<T> {
 
 	/**
 	 * Initializes the property.
+	 * 
+	 * @param args - The property arguments.
+	 * - channel: The name of the broadcast channel to keep the property value in sync with across browser tabs and frames, if any.
+	 * - skipUnchanged: Whether to skip notifying subscribers when the property is set to a value that deep equals its current value, defaults to false.
+	 * - immutable: How to protect the value from being modified by reference, i.e. "freeze" or "copy", defaults to the global `StateManager.immutable` mode.
 	 */
-	constructor() {
+	constructor({ channel, skipUnchanged = false, immutable }: { channel?: string, skipUnchanged?: boolean, immutable?: ImmutableMode } = {}) {
 
 		// Validate the property parameters.
-		// n/a
+		if (channel !== undefined && !channel) {
+			throw new Error(`ObservableProperty - requires a non-empty "channel" name to be specified, e.g. "my-channel-name".`);
+		}
 
 		// Set default property values.
 		this._subscribers = [];
+		this._origin = createOriginId();
+		this._skipUnchanged = skipUnchanged;
+		this._immutable = immutable;
+
+		// Keep the property value in sync with other browser tabs and frames, if supported by the browser.
+		if (channel && typeof BroadcastChannel !== 'undefined') {
+
+			this._channel = new BroadcastChannel(channel);
+			this._channel.onmessage = (event: MessageEvent<PropertyChannelMessage<T>>): void => this._onChannelMessage(event.data);
+		}
 	}
 
 	// ----------------
@@ -60,12 +154,16 @@ export class ObservableProperty<T> {
 	}
 
 	/**
-	 * Get the property value.
+	 * Get the property value, frozen in the "freeze" immutable mode, or copied in the "copy" immutable mode.
 	 * 
 	 * @returns The stored value.
 	 */
 	get(): T {
 
+		if (this._getImmutableMode() === 'copy') {
+			return deepCopy(this._value) as T;
+		}
+
 		return this._value;
 	}
 
@@ -74,64 +172,240 @@ export class ObservableProperty<T> {
 	 * 
 	 * The value may either be:
 	 * 1) a direct value matching the property type, or
-	 * 2) a function that will be called with a template of the current property value, that may be modified and will replace the property value when complete
+	 * 2) a function that will be called with a draft of the current property value, that may be modified and will replace the property value when complete,
+	 *    or that may return a replacement value. Unchanged nested values are shared with the current value, and the property value is left unchanged if
+	 *    the function throws.
 	 * 
 	 * @param valueOrFunction - The value to set, or the function to call.
+	 * @param source - The source of the change, reported to subscribers, defaults to "set".
 	 * 
 	 * @returns Nothing.
 	 */
-	set(valueOrFunction: T | PropertySetHandler<T>): void {
-
-		// Update the property value.
-		if (valueOrFunction === undefined) {
-
-			// If the new value is undefined, then unset the property value.
-			this._value = valueOrFunction;
+	set(valueOrFunction: T | PropertySetHandler<T>, source: PropertyChangeSource = 'set'): void {
 
-		} else if (isFunction(valueOrFunction)) {
+		// Resolve the new property value before changing the property, leaving it unchanged if a set function throws.
+		let newValue: T;
 
-			// If the property value is a function, then call it with a the current property value to allow the property values to be modified directly.
-			// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-			// @ts-ignore -> needed as typescript does not pick up here the value is a callable function.
-			valueOrFunction(this._value ?? {} as T);
+		if (isFunction(valueOrFunction)) {
 
-			this._value = deepCopy(this._value) as T;
+			// If the property value is a function, then call it with a draft of the current property value to allow the property values to be modified directly.
+			newValue = produceValue(this._value, valueOrFunction as PropertySetHandler<T>);
 
 		} else {
 
-			// Otherwise, just set the property value, making a copy to prevent mutation of the property value by reference.
-			this._value = deepCopy(valueOrFunction) as T;
+			// Otherwise, just use the value, making a copy to prevent mutation of the property value by reference.
+			newValue = deepCopy(valueOrFunction) as T;
 		}
 
-		// Notify subscribers that the property value has changed.
-		for (const subscriber of this._subscribers) {
+		// Keep the current property value, to restore it if the property is set within a batch that rolls back.
+		recordRollback(this, () => {
+
+			const previousValue = this._value;
+			const pendingChange = this._pendingChange;
 
-			// Emit a frozen value to prevent mutation of the property value by reference.
-			subscriber(deepCopy(valueOrFunction) as T);
+			return (): void => {
+				this._store(previousValue);
+				this._pendingChange = pendingChange;
+			};
+		});
+
+		// Keep the current property value to report to subscribers.
+		if (!this._pendingChange) {
+			this._pendingChange = { previous: this._value };
 		}
+
+		// Update the property value.
+		this._store(newValue);
+
+		// Publish the change and notify subscribers, deferred until the batch completes if the property is set within a batch.
+		scheduleNotification(this, () => {
+
+			// Skip publishing and notifying changes that did not change the value, if enabled.
+			if (this._skipUnchanged && deepEqual(this._pendingChange?.previous, this._value)) {
+				this._pendingChange = undefined;
+				return;
+			}
+
+			// Publish the new property value to other browser tabs and frames.
+			this._lastChange = { timestamp: Date.now(), origin: this._origin };
+
+			if (this._channel) {
+				this._channel.postMessage({ ...this._lastChange, value: this._value } as PropertyChannelMessage<T>);
+			}
+
+			// Notify subscribers that the property value has changed.
+			this._notify(source);
+		});
 	}
 
 	/**
 	 * Registers a subscriber to listen for property value changes.
 	 * 
 	 * @param handler - The function to call when the property value changes.
+	 * @param options - The subscriber options.
+	 * - signal: The signal to unsubscribe the subscriber with when aborted, e.g. when a component is removed.
+	 * - once: Whether to unsubscribe the subscriber after it is notified once, defaults to false.
+	 * - immediate: Whether to notify the subscriber of the current property value when subscribed, defaults to false.
 	 * 
-	 * @returns Nothing.
+	 * @returns The subscription, which can be called or disposed to unsubscribe the subscriber.
+	 */
+	subscribe(handler: PropertyChangeHandler<T>, options?: PropertySubscribeOptions): Subscription;
+
+	/**
+	 * Registers a subscriber to listen for changes to a slice of the property value, e.g. to only observe the fields of a large
+	 * state object that a component depends on.
+	 * 
+	 * @param handler - The function to call when the selected slice of the property value changes.
+	 * @param options - The subscriber options.
+	 * - select: The function to select the observed slice of the property value with.
+	 * - equals: The function to compare the previous and new selected slice with, defaults to a shallow equality check.
+	 * - signal: The signal to unsubscribe the subscriber with when aborted, e.g. when a component is removed.
+	 * - once: Whether to unsubscribe the subscriber after it is notified once, defaults to false.
+	 * - immediate: Whether to notify the subscriber of the current selected slice when subscribed, defaults to false.
+	 * 
+	 * @returns The subscription, which can be called or disposed to unsubscribe the subscriber.
 	 */
-	subscribe(handler: PropertyChangeHandler<T>): void {
+	subscribe<S>(handler: PropertySelectHandler<T, S>, options: PropertySelectOptions<T, S> & PropertySubscribeOptions): Subscription;
 
-		this._subscribers.push(handler);
+	subscribe<S>(handler: PropertyChangeHandler<T> | PropertySelectHandler<T, S>, options: Partial<PropertySelectOptions<T, S>> & PropertySubscribeOptions = {}): Subscription {
+
+		return addSubscriber(this._subscribers, handler, options as Partial<PropertySelectOptions<T, unknown>>, this._value, this._getImmutableMode());
 	}
 
 	/**
-	 * Removes a registers property value change subscriber.
+	 * Removes a registered property value change subscriber.
 	 * 
 	 * @param handler - The function to call when the property value changes.
 	 * 
 	 * @returns Nothing.
 	 */
-	unsubscribe(handler: PropertyChangeHandler<T>): void {
+	unsubscribe(handler: PropertyChangeHandler<T> | PropertySelectHandler<T, never>): void {
+
+		this._subscribers.filter(subscriber => subscriber.handler === handler).forEach(subscriber => subscriber.unsubscribe());
+	}
+
+	/**
+	 * Releases the resources held by the property, by removing all subscribers and closing the broadcast channel, if any. The property
+	 * value remains available.
+	 * 
+	 * @returns Nothing.
+	 */
+	dispose(): void {
+
+		[...this._subscribers].forEach(subscriber => subscriber.unsubscribe());
+
+		this._channel?.close();
+		this._channel = undefined;
+	}
+
+	/**
+	 * Iterates each new property value, e.g. with a `for await` loop, until the loop is exited.
+	 * 
+	 * @returns The async iterator.
+	 */
+	[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+
+		return toAsyncIterator(this);
+	}
+
+	/**
+	 * Gets a minimal Observable that emits each new property value, allowing the property to be consumed by Observable libraries,
+	 * e.g. with `from(property)` in RxJS. Also available under `Symbol.observable`, when defined.
+	 * 
+	 * @returns The interop Observable.
+	 */
+	['@@observable'](): InteropObservable<T> {
+
+		return toInteropObservable(this);
+	}
+
+	// -----------------
+	// PRIVATE FUNCTIONS
+	// -----------------
+
+	/**
+	 * Applies a property value change received from another browser tab or frame over the broadcast channel.
+	 * 
+	 * Concurrent changes are resolved by keeping the most recent change, with ties broken by the highest origin id, ensuring all
+	 * tabs and frames settle on the same value.
+	 * 
+	 * @param message - The received channel message.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _onChannelMessage(message: PropertyChannelMessage<T>): void {
+
+		// Ignore malformed messages, and messages published by the property itself.
+		if (!message || typeof message.origin !== 'string' || typeof message.timestamp !== 'number' || message.origin === this._origin) {
+			return;
+		}
+
+		// Ignore changes that are older than the last change applied to the property.
+		if (this._lastChange) {
+
+			if (message.timestamp < this._lastChange.timestamp) {
+				return;
+			}
+
+			if (message.timestamp === this._lastChange.timestamp && message.origin < this._lastChange.origin) {
+				return;
+			}
+		}
+
+		// Apply the new property value, without publishing it back over the channel.
+		this._lastChange = { timestamp: message.timestamp, origin: message.origin };
+		this._pendingChange = this._pendingChange ?? { previous: this._value };
+		this._store(message.value);
+
+		// Notify subscribers that the property value has changed.
+		this._notify('remote');
+	}
+
+	/**
+	 * Notifies subscribers of the pending property value change.
+	 * 
+	 * @param source - The source of the change.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _notify(source: PropertyChangeSource): void {
+
+		const previous = this._pendingChange?.previous as T;
+
+		this._pendingChange = undefined;
+
+		notifySubscribers(this._subscribers, this._value, previous, source, this._getImmutableMode());
+	}
+
+	/**
+	 * Stores a new property value, freezing it in the "freeze" immutable mode.
+	 * 
+	 * @param value - The new property value.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _store(value: T): void {
+
+		this._value = this._getImmutableMode() === 'freeze' ? deepFreeze(value as object) as T : value;
+	}
+
+	/**
+	 * Gets how the property protects its value from being modified by reference, falling back to the global immutable mode.
+	 * 
+	 * @returns The immutable mode.
+	 */
+	private _getImmutableMode(): ImmutableMode {
 
-		this._subscribers = this._subscribers.filter(subscriber => subscriber !== handler);
+		return this._immutable ?? StateManager.immutable;
 	}
+}
+
+// Expose the interop Observable under `Symbol.observable` as well, when defined by the environment or a polyfill.
+if (OBSERVABLE_KEY !== '@@observable') {
+
+	Object.defineProperty(ObservableProperty.prototype, OBSERVABLE_KEY, {
+		value(this: ObservableProperty<unknown>): InteropObservable<unknown> {
+			return toInteropObservable(this);
+		}
+	});
 }
\ No newline at end of file
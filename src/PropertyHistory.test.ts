@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+
+import { ObservableProperty } from './ObservableProperty.js';
+import { PropertyHistory, withHistory } from './PropertyHistory.js';
+import { StatefulProperty } from './StatefulProperty.js';
+import { StateManager } from './StateManager.js';
+import { MemoryStorage } from './stores/MemoryStorage.js';
+
+describe('PropertyHistory', () => {
+
+	it('undoes and redoes the values set on a property', () => {
+
+		const count = new ObservableProperty<number>();
+		const history = withHistory(count);
+
+		count.set(1);
+		count.set(2);
+
+		expect(history.canUndo).toBe(true);
+		expect(history.canRedo).toBe(false);
+
+		history.undo();
+
+		expect(count.get()).toBe(1);
+
+		history.undo();
+
+		expect(count.get()).toBeUndefined();
+		expect(history.canUndo).toBe(false);
+
+		history.redo();
+		history.redo();
+
+		expect(count.get()).toBe(2);
+		expect(history.canRedo).toBe(false);
+	});
+
+	it('records copies of the values set with a draft', () => {
+
+		const profile = new ObservableProperty<{ name?: string }>();
+		const history = withHistory(profile);
+
+		profile.set({ name: 'Jane' });
+		profile.set(draft => {
+			if (draft) {
+				draft.name = 'John';
+			}
+		});
+
+		history.undo();
+
+		expect(profile.get()).toEqual({ name: 'Jane' });
+	});
+
+	it('discards the redo steps when a new value is set', () => {
+
+		const count = new ObservableProperty<number>();
+		const history = withHistory(count);
+
+		count.set(1);
+		count.set(2);
+		history.undo();
+		count.set(3);
+
+		expect(history.canRedo).toBe(false);
+
+		history.undo();
+
+		expect(count.get()).toBe(1);
+	});
+
+	it('drops the oldest steps beyond the limit', () => {
+
+		const count = new ObservableProperty<number>();
+		const history = withHistory(count, { limit: 2 });
+
+		count.set(1);
+		count.set(2);
+		count.set(3);
+
+		history.undo();
+		history.undo();
+
+		expect(count.get()).toBe(1);
+		expect(history.canUndo).toBe(false);
+	});
+
+	it('records the values set within a group as a single step', () => {
+
+		const count = new ObservableProperty<number>();
+		const history = withHistory(count);
+
+		count.set(1);
+
+		history.group(() => {
+			count.set(2);
+			count.set(3);
+		});
+
+		history.undo();
+
+		expect(count.get()).toBe(1);
+
+		history.redo();
+
+		expect(count.get()).toBe(3);
+	});
+
+	it('records the values set within a batch as a single step', () => {
+
+		const count = new ObservableProperty<number>();
+		const history = withHistory(count);
+
+		StateManager.batch(() => {
+			count.set(1);
+			count.set(2);
+		});
+
+		history.undo();
+
+		expect(count.get()).toBeUndefined();
+	});
+
+	it('does not record values changed from outside of the app', () => {
+
+		const count = new ObservableProperty<number>();
+		const history = withHistory(count);
+
+		count.set(1, 'remote');
+
+		expect(history.canUndo).toBe(false);
+
+		count.set(2);
+		history.undo();
+
+		expect(count.get()).toBe(1);
+	});
+
+	it('persists undone values of a stateful property into storage', () => {
+
+		const storage = new MemoryStorage();
+		const theme = new StatefulProperty<string>({ storage, key: 'theme' });
+		const history = withHistory(theme);
+
+		theme.set('light');
+		theme.set('dark');
+		history.undo();
+
+		expect(storage.get('theme')).toBe('light');
+	});
+
+	it('clears the history, keeping the current value', () => {
+
+		const count = new ObservableProperty<number>();
+		const history = withHistory(count);
+
+		count.set(1);
+		history.undo();
+		history.clearHistory();
+
+		expect(history.canUndo).toBe(false);
+		expect(history.canRedo).toBe(false);
+		expect(count.get()).toBeUndefined();
+	});
+
+	it('stops recording when disposed', () => {
+
+		const count = new ObservableProperty<number>();
+		const history = new PropertyHistory(count);
+
+		history.dispose();
+		count.set(1);
+
+		expect(history.canUndo).toBe(false);
+	});
+});
\ No newline at end of file
@@ -0,0 +1,276 @@
+import type { PropertyChange } from './types.js';
+import type { Subscription } from './types/Subscription.js';
+
+import { ObservableProperty } from './ObservableProperty.js';
+import { deepCopy } from './utilities/deepCopy.js';
+import { deepEqual } from './utilities/deepEqual.js';
+
+/**
+ * Undo and redo history of the values set on a property.
+ * 
+ * Each value set on the property by the app is recorded as a step in the history, while values changed from outside of the app, e.g.
+ * by another browser tab, are not. Undoing or redoing a step sets the recorded value back on the property, thus values of a
+ * `StatefulProperty` are also saved into storage.
+ * 
+ * ```js
+ * import { StatefulProperty, withHistory } from '@capitec/omni-state';
+ * 
+ * const form = new StatefulProperty<Form>({ storage: SessionStorage, key: 'form' });
+ * const history = withHistory(form, { limit: 50 });
+ * 
+ * form.set(draft => ({ ...draft, name: 'Jane' }));
+ * 
+ * history.undo();
+ * ```
+ */
+export class PropertyHistory<T> {
+
+	// ----------
+	// PROPERTIES
+	// ----------
+
+	/**
+	 * The property to record the history of.
+	 */
+	private _property: ObservableProperty<T>;
+
+	/**
+	 * The maximum number of steps to keep in the history.
+	 */
+	private _limit: number;
+
+	/**
+	 * The values of the steps that can be undone, with the most recent step last.
+	 */
+	private _past: T[];
+
+	/**
+	 * The current value of the property, as recorded in the history.
+	 */
+	private _present: T;
+
+	/**
+	 * The values of the steps that can be redone, with the next step last.
+	 */
+	private _future: T[];
+
+	/**
+	 * The number of groups that are running, recording all values set within them as a single step.
+	 */
+	private _groupDepth: number;
+
+	/**
+	 * Whether a step has already been recorded for the running group.
+	 */
+	private _groupRecorded: boolean;
+
+	/**
+	 * The subscription on the property to record values set on it.
+	 */
+	private _subscription: Subscription;
+
+	// ------------
+	// CONSTRUCTORS
+	// ------------
+
+	/**
+	 * Initializes the history.
+	 * 
+	 * @param property - The property to record the history of.
+	 * @param args - The history arguments.
+	 * - limit: The maximum number of steps to keep in the history, dropping the oldest steps first, defaults to 100.
+	 */
+	constructor(property: ObservableProperty<T>, { limit = 100 }: { limit?: number } = {}) {
+
+		// Validate the history parameters.
+		if (!(property instanceof ObservableProperty)) {
+			throw new Error(`PropertyHistory - requires an ObservableProperty or StatefulProperty to record the history of.`);
+		}
+
+		if (limit < 1) {
+			throw new Error(`PropertyHistory - requires a "limit" of 1 or more steps, received ${limit}.`);
+		}
+
+		// Set default history values.
+		this._property = property;
+		this._limit = limit;
+		this._past = [];
+		this._present = deepCopy(property.get()) as T;
+		this._future = [];
+		this._groupDepth = 0;
+		this._groupRecorded = false;
+
+		// Record the values set on the property.
+		this._subscription = property.subscribe((value: T, change: PropertyChange<T>) => this._record(value, change));
+	}
+
+	// ----------------
+	// PUBLIC FUNCTIONS
+	// ----------------
+
+	/**
+	 * Check if there is a step to undo.
+	 * 
+	 * @returns True if a step can be undone, otherwise false.
+	 */
+	get canUndo(): boolean {
+
+		return this._past.length > 0;
+	}
+
+	/**
+	 * Check if there is a step to redo.
+	 * 
+	 * @returns True if a step can be redone, otherwise false.
+	 */
+	get canRedo(): boolean {
+
+		return this._future.length > 0;
+	}
+
+	/**
+	 * Restores the property value from before the last step, if any.
+	 * 
+	 * @returns Nothing.
+	 */
+	undo(): void {
+
+		if (!this.canUndo) {
+			return;
+		}
+
+		this._future.push(this._present);
+
+		this._restore(this._past.pop() as T);
+	}
+
+	/**
+	 * Restores the property value from the last undone step, if any.
+	 * 
+	 * @returns Nothing.
+	 */
+	redo(): void {
+
+		if (!this.canRedo) {
+			return;
+		}
+
+		this._past.push(this._present);
+
+		this._restore(this._future.pop() as T);
+	}
+
+	/**
+	 * Removes all steps from the history, keeping the current property value.
+	 * 
+	 * @returns Nothing.
+	 */
+	clearHistory(): void {
+
+		this._past = [];
+		this._future = [];
+		this._present = deepCopy(this._property.get()) as T;
+	}
+
+	/**
+	 * Runs a function, recording all values set on the property within it as a single step, e.g. to undo all fields of a form that
+	 * were filled in at once.
+	 * 
+	 * @param callback - The function to run.
+	 * 
+	 * @returns The result of the function.
+	 */
+	group<R>(callback: () => R): R {
+
+		if (this._groupDepth === 0) {
+			this._groupRecorded = false;
+		}
+
+		this._groupDepth++;
+
+		try {
+			return callback();
+		} finally {
+			this._groupDepth--;
+		}
+	}
+
+	/**
+	 * Stops recording the values set on the property.
+	 * 
+	 * @returns Nothing.
+	 */
+	dispose(): void {
+
+		this._subscription.unsubscribe();
+	}
+
+	// -----------------
+	// PRIVATE FUNCTIONS
+	// -----------------
+
+	/**
+	 * Records a property value change as a step in the history.
+	 * 
+	 * @param value - The new property value.
+	 * @param change - The details of the change.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _record(value: T, change: PropertyChange<T>): void {
+
+		// Values changed from outside of the app replace the current value, without adding a step.
+		if (change.source !== 'set') {
+			this._present = value;
+			return;
+		}
+
+		// Ignore values that did not change, including values restored by undo and redo.
+		if (deepEqual(value, this._present)) {
+			return;
+		}
+
+		// Values set within a group after its first step only replace the value of the step.
+		if (this._groupDepth === 0 || !this._groupRecorded) {
+
+			this._past.push(this._present);
+
+			if (this._past.length > this._limit) {
+				this._past.shift();
+			}
+
+			this._groupRecorded = this._groupDepth > 0;
+		}
+
+		this._present = value;
+		this._future = [];
+	}
+
+	/**
+	 * Sets a value recorded in the history back on the property.
+	 * 
+	 * @param value - The recorded value.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _restore(value: T): void {
+
+		this._present = value;
+
+		this._property.set(deepCopy(value) as T);
+	}
+}
+
+/**
+ * Records the undo and redo history of the values set on a property.
+ * 
+ * @param property - The property to record the history of.
+ * @param options - The history options.
+ * - limit: The maximum number of steps to keep in the history, dropping the oldest steps first, defaults to 100.
+ * 
+ * @returns The property history.
+ */
+export function withHistory<T>(property: ObservableProperty<T>, options: { limit?: number } = {}): PropertyHistory<T> {
+
+	return new PropertyHistory(property, options);
+}
\ No newline at end of file
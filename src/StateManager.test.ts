@@ -0,0 +1,271 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { ObservableProperty } from './ObservableProperty.js';
+import { StatefulProperty } from './StatefulProperty.js';
+import { TaggedJsonSerializer } from './serializers/TaggedJsonSerializer.js';
+import { MemoryAsyncStorage } from './stores/MemoryAsyncStorage.js';
+import { MemoryStorage } from './stores/MemoryStorage.js';
+import { StateManager } from './StateManager.js';
+
+describe('StateManager', () => {
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('sweeps expired values from synchronous storage', async () => {
+
+		vi.useFakeTimers({ now: 5000 });
+
+		const storage = new MemoryStorage();
+
+		storage.set('expired', { $state: { expiresAt: 5000 }, value: 'a' });
+		storage.set('fresh', { $state: { expiresAt: 6000 }, value: 'b' });
+		storage.set('plain', 'c');
+
+		expect(await StateManager.sweep(storage)).toEqual(['expired']);
+		expect(storage.keys()).toEqual(['fresh', 'plain']);
+	});
+
+	it('sweeps expired serialized values from asynchronous storage', async () => {
+
+		vi.useFakeTimers({ now: 5000, toFake: ['Date'] });
+
+		const storage = new MemoryAsyncStorage();
+
+		await storage.set('expired', TaggedJsonSerializer.serialize({ $state: { expiresAt: 1000 }, value: 'a' }));
+		await storage.set('invalid', '{');
+
+		expect(await StateManager.sweep(storage, { serializer: TaggedJsonSerializer })).toEqual(['expired']);
+		expect(await storage.keys()).toEqual(['invalid']);
+	});
+
+	it('defers and coalesces notifications and storage writes until the batch completes', () => {
+
+		const storage = new MemoryStorage();
+		const firstName = new StatefulProperty<string>({ storage, key: 'first-name' });
+		const lastName = new ObservableProperty<string>();
+		const write = vi.spyOn(storage, 'set');
+		const calls: string[] = [];
+
+		const firstNameHandler = vi.fn();
+
+		firstName.subscribe(firstNameHandler);
+		firstName.subscribe(value => calls.push(`first:${value}:${lastName.get()}`));
+		lastName.subscribe(value => calls.push(`last:${value}:${firstName.get()}`));
+
+		const result = StateManager.batch(() => {
+
+			firstName.set('J');
+			firstName.set('Jane');
+			lastName.set('Doe');
+
+			expect(calls).toEqual([]);
+			expect(storage.get('first-name')).toBeUndefined();
+
+			return 'done';
+		});
+
+		expect(result).toBe('done');
+		expect(calls).toEqual(['first:Jane:Doe', 'last:Doe:Jane']);
+		expect(firstNameHandler).toHaveBeenCalledWith('Jane', { value: 'Jane', previous: undefined, source: 'set' });
+		expect(write).toHaveBeenCalledTimes(1);
+		expect(storage.get('first-name')).toBe('Jane');
+	});
+
+	it('rolls back values and storage writes when a transaction throws', () => {
+
+		const storage = new MemoryStorage();
+		const balance = new StatefulProperty<number>({ storage, key: 'balance' });
+		const history = new ObservableProperty<string[]>();
+		const handler = vi.fn();
+
+		balance.set(100);
+		history.set(['opened']);
+		balance.subscribe(handler);
+		history.subscribe(handler);
+
+		expect(() => StateManager.transaction(() => {
+
+			balance.set(50);
+			history.set(draft => {
+				if (draft) {
+					draft.push('withdrew 50');
+				}
+			});
+
+			throw new Error('Declined');
+
+		})).toThrow('Declined');
+
+		expect(balance.get()).toBe(100);
+		expect(history.get()).toEqual(['opened']);
+		expect(storage.get('balance')).toBe(100);
+		expect(handler).not.toHaveBeenCalled();
+	});
+
+	it('keeps the changes of a failed batch without rollback', () => {
+
+		const count = new ObservableProperty<number>();
+		const handler = vi.fn();
+
+		count.subscribe(handler);
+
+		expect(() => StateManager.batch(() => {
+
+			count.set(1);
+			throw new Error('Failed');
+
+		})).toThrow('Failed');
+
+		expect(count.get()).toBe(1);
+		expect(handler).toHaveBeenCalledWith(1, { value: 1, previous: undefined, source: 'set' });
+	});
+
+	it('rolls back a nested transaction without discarding the outer batch', () => {
+
+		const a = new ObservableProperty<number>();
+		const b = new ObservableProperty<number>();
+		const handler = vi.fn();
+
+		a.subscribe(handler);
+		b.subscribe(handler);
+
+		StateManager.batch(() => {
+
+			a.set(1);
+
+			try {
+				StateManager.transaction(() => {
+					a.set(2);
+					b.set(2);
+					throw new Error('Failed');
+				});
+			} catch (err) {
+				// Ignore the failed transaction.
+			}
+		});
+
+		expect(a.get()).toBe(1);
+		expect(b.exists()).toBe(false);
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(handler).toHaveBeenCalledWith(1, { value: 1, previous: undefined, source: 'set' });
+	});
+
+	it('reports the outcome of each storage read, including failed reads', async () => {
+
+		const error = new Error('Read failed');
+
+		StateManager.enqueue('a', Promise.resolve(1));
+		StateManager.enqueue('b', Promise.reject(error));
+
+		const results = await StateManager.allSettled;
+
+		expect(results.get('a')).toEqual({ status: 'fulfilled', value: 1 });
+		expect(results.get('b')).toEqual({ status: 'rejected', reason: error });
+	});
+
+	it('waits for storage reads enqueued while waiting, until the read queue drains', async () => {
+
+		StateManager.enqueue('first', Promise.resolve(1).then(value => {
+			StateManager.enqueue('second', new Promise(resolve => setTimeout(() => resolve(2), 5)));
+			return value;
+		}));
+
+		const results = await StateManager.allSettled;
+
+		expect(results.get('first')).toEqual({ status: 'fulfilled', value: 1 });
+		expect(results.get('second')).toEqual({ status: 'fulfilled', value: 2 });
+	});
+
+	it('waits for every read of a key enqueued more than once', async () => {
+
+		let resolveFirst: (value: string) => void = () => undefined;
+
+		StateManager.enqueue('key', new Promise(resolve => {
+			resolveFirst = resolve;
+		}));
+		StateManager.enqueue('key', Promise.resolve('second'));
+
+		const results = StateManager.allSettled;
+		const settled = vi.fn();
+
+		void results.then(settled);
+
+		await new Promise(resolve => setTimeout(resolve, 5));
+
+		expect(settled).not.toHaveBeenCalled();
+
+		resolveFirst('first');
+
+		expect((await results).get('key')).toEqual({ status: 'fulfilled', value: 'second' });
+	});
+
+	describe('writes', () => {
+
+		afterEach(() => {
+			StateManager.writeRetry = { retries: 3, delay: 100 };
+		});
+
+		it('keeps only the last value written while a write runs', async () => {
+
+			const storage = new MemoryAsyncStorage({ latency: 5 });
+			const property = new StatefulProperty<string>({ storage, key: 'name' });
+			const setSpy = vi.spyOn(storage, 'set');
+
+			await StateManager.allSettled;
+
+			property.set('a');
+			property.set('b');
+			property.set('c');
+
+			await StateManager.flush();
+
+			expect(await storage.get('name')).toBe('c');
+			expect(setSpy.mock.calls).toEqual([['name', 'a'], ['name', 'c']]);
+		});
+
+		it('retries failed writes, and reports the error once all retries fail', async () => {
+
+			StateManager.writeRetry = { retries: 2, delay: 1 };
+
+			const storage = new MemoryAsyncStorage();
+			const property = new StatefulProperty<string>({ storage, key: 'name' });
+			const error = new Error('Quota exceeded');
+			const setSpy = vi.spyOn(storage, 'set').mockRejectedValue(error);
+			const handler = vi.fn();
+			const subscription = StateManager.onWriteError(handler);
+
+			await StateManager.allSettled;
+
+			property.set('a');
+
+			await StateManager.flush();
+
+			subscription.unsubscribe();
+
+			expect(setSpy).toHaveBeenCalledTimes(3);
+			expect(handler).toHaveBeenCalledWith({ storage, key: 'name', error, attempts: 3 });
+		});
+
+		it('retries failed synchronous writes in the background', async () => {
+
+			StateManager.writeRetry = { retries: 1, delay: 1 };
+
+			const storage = new MemoryStorage();
+			const property = new StatefulProperty<string>({ storage, key: 'name' });
+
+			vi.spyOn(storage, 'set').mockImplementationOnce(() => {
+				throw new Error('Quota exceeded');
+			});
+
+			property.set('a');
+
+			expect(storage.get('name')).toBeUndefined();
+
+			await StateManager.flush();
+
+			expect(storage.get('name')).toBe('a');
+		});
+	});
+});
\ No newline at end of file
@@ -1,4 +1,15 @@
 
+import { ImmutableMode, StateLoadResult, StorageWriteErrorHandler, StorageWriteRetry } from './types.js';
+import { AsyncStorage } from './types/AsyncStorage.js';
+import { Serializer } from './types/Serializer.js';
+import { Subscription } from './types/Subscription.js';
+import { SyncStorage } from './types/SyncStorage.js';
+import { runBatch } from './utilities/batchUpdates.js';
+import { flushDeferredWrites } from './utilities/deferWrite.js';
+import { isStateEnvelope } from './utilities/isStateEnvelope.js';
+import { isStateExpired } from './utilities/isStateExpired.js';
+import { flushWrites, onWriteError, writeRetry } from './utilities/writeQueue.js';
+
 // Polyfill Promise.allSettled if if does not exist in the browser.
 function patchAllSettled(promises: Promise<unknown>[]): Promise<({ status: string; reason: unknown })[]> {
 
@@ -14,9 +25,26 @@ function patchAllSettled(promises: Promise<unknown>[]): Promise<({ status: strin
 Promise.allSettled = Promise.allSettled || patchAllSettled;
 
 /**
- * List of asynchronous storage read operations that are running.
+ * List of asynchronous storage read operations that are running, in the order they were enqueued.
+ */
+const _pendingLoads = new Set<{ key: string, promise: Promise<unknown> }>();
+
+/**
+ * Gets the storage read operations that are running, excluding the operations that were already waited for.
+ * 
+ * @param settled - The loading promises that were already waited for.
+ * 
+ * @returns The running storage read operations.
+ */
+function pendingLoads(settled: Set<Promise<unknown>>): { key: string, promise: Promise<unknown> }[] {
+
+	return Array.from(_pendingLoads).filter(load => !settled.has(load.promise));
+}
+
+/**
+ * The immutable mode of properties that do not specify their own.
  */
-const _pendingPromises = new Map<string, Promise<unknown>>();
+let _immutable: ImmutableMode = false;
 
 /**
  * Utility to load and refresh state.
@@ -24,7 +52,7 @@ const _pendingPromises = new Map<string, Promise<unknown>>();
 export class StateManager {
 
 	/**
-	 * Add a property to the read from state queue.
+	 * Add a property to the read from state queue. The property is removed from the queue once the loading promise settles.
 	 * 
 	 * @param key - The property key.
 	 * @param value - The loading promise.
@@ -33,11 +61,16 @@ export class StateManager {
 	 */
 	static enqueue(key: string, value: Promise<unknown>): void {
 
-		_pendingPromises.set(key, value);
+		const load = { key, promise: value };
+
+		_pendingLoads.add(load);
+
+		// Clean up, by removing the operation from the read queue once it settles.
+		void value.then(() => _pendingLoads.delete(load), () => _pendingLoads.delete(load));
 	}
 
 	/**
-	 * Add a property from the read from state queue.
+	 * Remove a property from the read from state queue, including all of its loading promises.
 	 * 
 	 * @param key - The property key.
 	 * 
@@ -45,34 +78,176 @@ export class StateManager {
 	 */
 	static dequeue(key: string): void {
 
-		_pendingPromises.delete(key);
+		_pendingLoads.forEach(load => {
+
+			if (load.key === key) {
+				_pendingLoads.delete(load);
+			}
+		});
 	}
 
 	/**
 	 * Property that can be awaited to guarantee that all `StatefulProperty`'s have been initialized from storage. Required to enable async data stores.
 	 * 
+	 * Waits for all running storage reads, as well as reads enqueued while waiting, until the read queue drains. Each read is reported by
+	 * its key, with either the value read, or the reason the read failed. Keys read more than once report their last enqueued read.
+	 * 
+	 * @returns The outcome of each storage read, keyed by property key.
+	 */
+	static get allSettled(): Promise<Map<string, StateLoadResult>> {
+
+		return (async (): Promise<Map<string, StateLoadResult>> => {
+
+			const result = new Map<string, StateLoadResult>();
+			const settled = new Set<Promise<unknown>>();
+
+			// Wait for the pending storage read operations to finalize, until no new operations are enqueued while waiting.
+			for (let loads = pendingLoads(settled); loads.length > 0; loads = pendingLoads(settled)) {
+
+				const outcome = await Promise.allSettled(loads.map(load => load.promise));
+
+				// Report the outcome of each storage property read.
+				loads.forEach((load, i) => {
+
+					const loadOutcome = outcome[i] as { status: 'fulfilled' | 'rejected', value?: unknown, reason?: unknown };
+
+					settled.add(load.promise);
+					result.set(load.key, { status: loadOutcome.status, value: loadOutcome.value, reason: loadOutcome.reason });
+				});
+			}
+
+			return result;
+		})();
+	}
+
+	/**
+	 * The immutable mode of all properties that do not specify their own, defaults to false. E.g. freeze values during development to
+	 * catch accidental modifications, and return copies in production.
+	 * 
+	 * @returns The immutable mode.
+	 */
+	static get immutable(): ImmutableMode {
+
+		return _immutable;
+	}
+
+	static set immutable(mode: ImmutableMode) {
+
+		_immutable = mode;
+	}
+
+	/**
+	 * The options that control how failed storage writes are retried, defaults to 3 retries, starting after a 100 millisecond delay
+	 * that doubles for each following retry.
+	 * 
+	 * @returns The retry options.
+	 */
+	static get writeRetry(): StorageWriteRetry {
+
+		return { ...writeRetry };
+	}
+
+	static set writeRetry(options: StorageWriteRetry) {
+
+		Object.assign(writeRetry, options);
+	}
+
+	/**
+	 * Waits for all pending storage writes to complete, including their retries, e.g. before logging out or navigating away. Writes
+	 * deferred by the `persist` option are written immediately. Failed writes are reported to the `onWriteError` subscribers, rather
+	 * than rejecting.
+	 * 
 	 * @returns Nothing.
 	 */
-	static get allSettled(): Promise<Map<string, any>> {
+	static flush(): Promise<void> {
 
-		return new Promise((resolve, reject) => {
+		flushDeferredWrites();
 
-			const keys = Array.from(_pendingPromises.keys());
+		return flushWrites();
+	}
+
+	/**
+	 * Registers a subscriber to call whenever a property value could not be saved into, or removed from, storage after retrying, e.g.
+	 * when the storage quota is exceeded. Failed writes are logged to the console while there are no subscribers.
+	 * 
+	 * @param handler - The function to call with the details of the failed write.
+	 * 
+	 * @returns The subscription, which can be called or disposed to unsubscribe the subscriber.
+	 */
+	static onWriteError(handler: StorageWriteErrorHandler): Subscription {
 
-			// Wait for all of the pending storage read operations to finalize.
-			void Promise.allSettled(Array.from(_pendingPromises.values())).then(outcome => {
+		return onWriteError(handler);
+	}
 
-				const data = outcome as { status: 'fulfilled' | 'rejected', value: unknown }[];
+	/**
+	 * Runs a function as a batch, deferring the storage writes and subscriber notifications of all properties set within the function
+	 * until it completes. Each property set more than once within the batch is written to storage and notifies its subscribers only once,
+	 * with its final value. Batches started within another batch are merged into the outer batch.
+	 * 
+	 * The function must be synchronous, as properties set after an `await` are no longer part of the batch.
+	 * 
+	 * @param callback - The function to run.
+	 * @param args - The batch arguments.
+	 * - rollback: Whether to restore the values of all properties set within the function, and discard their storage writes and notifications, if the function throws, defaults to false.
+	 * 
+	 * @returns The result of the function.
+	 */
+	static batch<R>(callback: () => R, { rollback = false }: { rollback?: boolean } = {}): R {
 
-				// Report the value of each storage property read.
-				const result = new Map<string, unknown>();
+		return runBatch(callback, rollback);
+	}
 
-				for (let i = 0; i < data.length; i++) {
-					result.set(keys[i], data[i].value);
+	/**
+	 * Runs a function as a batch that rolls back if the function throws, restoring the values of all properties set within the function,
+	 * and discarding their storage writes and notifications.
+	 * 
+	 * @param callback - The function to run.
+	 * 
+	 * @returns The result of the function.
+	 */
+	static transaction<R>(callback: () => R): R {
+
+		return runBatch(callback, true);
+	}
+
+	/**
+	 * Removes all expired values from a storage mechanism, i.e. values saved with a `ttl` or `expiresAt` that has passed.
+	 * 
+	 * Expired values are also removed when restored by a property, thus sweeping is only required to purge values that are no longer restored, e.g. cached responses for other keys.
+	 * 
+	 * @param storage - The storage mechanism to remove expired values from.
+	 * @param args - The sweep arguments.
+	 * - serializer: The serializer the values were saved with by their properties, if any.
+	 * 
+	 * @returns The keys of the removed values.
+	 */
+	static async sweep(storage: SyncStorage | AsyncStorage, { serializer }: { serializer?: Serializer } = {}): Promise<string[]> {
+
+		const now = Date.now();
+		const removedKeys: string[] = [];
+
+		for (const key of await storage.keys()) {
+
+			let value = await storage.get<unknown>(key);
+
+			// Skip values that can not be deserialized, as their expiry time is unknown.
+			if (serializer && typeof value === 'string') {
+
+				try {
+					value = serializer.deserialize(value);
+				} catch (err) {
+					continue;
 				}
+			}
 
-				resolve(result);
-			});
-		});
+			if (isStateEnvelope(value) && isStateExpired(value, now)) {
+
+				await storage.remove(key);
+
+				removedKeys.push(key);
+			}
+		}
+
+		return removedKeys;
 	}
 }
\ No newline at end of file
@@ -0,0 +1,513 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { StandardSchema } from './types/StandardSchema.js';
+import { TaggedJsonSerializer } from './serializers/TaggedJsonSerializer.js';
+import { MemoryAsyncStorage } from './stores/MemoryAsyncStorage.js';
+import { MemoryStorage } from './stores/MemoryStorage.js';
+import { StatefulProperty } from './StatefulProperty.js';
+import { StateManager } from './StateManager.js';
+import { collectGarbage, ObservableMemoryStorage } from './testHelpers.tests.js';
+
+describe('StatefulProperty', () => {
+
+	it('persists values set on the property into storage', () => {
+
+		const storage = new MemoryStorage();
+		const property = new StatefulProperty<{ count: number }>({ storage, key: 'counter' });
+
+		property.set({ count: 1 });
+
+		expect(storage.get('counter')).toEqual({ count: 1 });
+
+		property.set(draft => {
+			if (draft) {
+				draft.count = 2;
+			}
+		});
+
+		expect(storage.get('counter')).toEqual({ count: 2 });
+
+		property.set(undefined as unknown as { count: number });
+
+		expect(storage.get('counter')).toBeUndefined();
+	});
+
+	it('restores the initial value from synchronous storage', () => {
+
+		const storage = new MemoryStorage();
+
+		storage.set('counter', { count: 5 });
+
+		const property = new StatefulProperty<{ count: number }>({ storage, key: 'counter' });
+
+		expect(property.get()).toEqual({ count: 5 });
+	});
+
+	it('restores the initial value from asynchronous storage', async () => {
+
+		const storage = new MemoryAsyncStorage({ latency: 5 });
+
+		await storage.set('async-counter', { count: 5 });
+
+		const property = new StatefulProperty<{ count: number }>({ storage, key: 'async-counter' });
+		const handler = vi.fn();
+
+		property.subscribe(handler);
+
+		expect(property.exists()).toBe(false);
+
+		const values = await StateManager.allSettled;
+
+		expect(values.get('async-counter')).toEqual({ status: 'fulfilled', value: { count: 5 } });
+		expect(property.get()).toEqual({ count: 5 });
+		expect(handler).toHaveBeenCalledWith({ count: 5 }, { value: { count: 5 }, previous: undefined, source: 'storage-restore' });
+	});
+
+	it('keeps values set while restoring from asynchronous storage', async () => {
+
+		const storage = new MemoryAsyncStorage({ latency: 5 });
+
+		await storage.set('greeting', 'old');
+
+		const property = new StatefulProperty<string>({ storage, key: 'greeting' });
+
+		property.set('new');
+
+		await property.ready;
+		await StateManager.flush();
+
+		expect(property.get()).toBe('new');
+		expect(await storage.get('greeting')).toBe('new');
+	});
+
+	it('reports the loading state while restoring from asynchronous storage', async () => {
+
+		const storage = new MemoryAsyncStorage({ latency: 5 });
+		const error = new Error('Database closed');
+
+		await storage.set('profile', { name: 'Jane' });
+
+		const property = new StatefulProperty<{ name: string }>({ storage, key: 'profile' });
+
+		vi.spyOn(storage, 'get').mockRejectedValueOnce(error);
+
+		const failedProperty = new StatefulProperty<{ name: string }>({ storage, key: 'failed-profile' });
+
+		expect(property.loading).toBe(true);
+
+		await Promise.all([property.ready, failedProperty.ready]);
+
+		expect(property.loading).toBe(false);
+		expect(property.error).toBeUndefined();
+		expect(property.get()).toEqual({ name: 'Jane' });
+		expect(failedProperty.loading).toBe(false);
+		expect(failedProperty.error).toBe(error);
+	});
+
+	it('updates the property value when changed in storage by another tab', () => {
+
+		const storage = new ObservableMemoryStorage();
+		const property = new StatefulProperty<string>({ storage, key: 'greeting' });
+		const handler = vi.fn();
+
+		property.subscribe(handler);
+
+		storage.changeExternally({ key: 'greeting', value: 'Hello' });
+		storage.changeExternally({ key: 'other', value: 'World' });
+
+		expect(property.get()).toBe('Hello');
+
+		storage.changeExternally({ key: undefined });
+
+		expect(property.get()).toBeUndefined();
+		expect(handler.mock.calls).toEqual([
+			['Hello', { value: 'Hello', previous: undefined, source: 'remote' }],
+			[undefined, { value: undefined, previous: 'Hello', source: 'remote' }]
+		]);
+	});
+
+	it('stops following storage changes made by another tab when disposed', () => {
+
+		const storage = new ObservableMemoryStorage();
+		const property = new StatefulProperty<string>({ storage, key: 'greeting' });
+
+		property.dispose();
+
+		storage.changeExternally({ key: 'greeting', value: 'Hello' });
+
+		expect(property.get()).toBeUndefined();
+		expect(storage.subscribers).toHaveLength(0);
+	});
+
+	it('stops following storage changes made by another tab once garbage collected', async () => {
+
+		const storage = new ObservableMemoryStorage();
+
+		let property: StatefulProperty<string> | undefined = new StatefulProperty<string>({ storage, key: 'greeting' });
+
+		expect(property.get()).toBeUndefined();
+		expect(storage.subscribers).toHaveLength(1);
+
+		property = undefined;
+
+		await collectGarbage(() => storage.subscribers.length === 0);
+
+		expect(storage.subscribers).toHaveLength(0);
+	});
+
+	it('ignores storage changes made by another tab when sync is disabled, but is still re-hydrated', () => {
+
+		const storage = new ObservableMemoryStorage();
+		const property = new StatefulProperty<string>({ storage, key: 'greeting', sync: false });
+
+		storage.changeExternally({ key: 'greeting', value: 'Hello' });
+		storage.changeExternally({ key: undefined });
+
+		expect(property.get()).toBeUndefined();
+
+		storage.changeExternally({ key: 'greeting', value: 'World', rehydrate: true });
+
+		expect(property.get()).toBe('World');
+	});
+
+	it('serializes values with the configured serializer', () => {
+
+		const storage = new MemoryStorage();
+		const property = new StatefulProperty<{ createdAt: Date }>({ storage, key: 'created', serializer: TaggedJsonSerializer });
+
+		property.set({ createdAt: new Date(0) });
+
+		expect(storage.get('created')).toBe('{"createdAt":{"$type":"Date","value":0}}');
+
+		const restored = new StatefulProperty<{ createdAt: Date }>({ storage, key: 'created', serializer: TaggedJsonSerializer });
+
+		expect(restored.get().createdAt).toEqual(new Date(0));
+	});
+
+	it('records the value version in storage', () => {
+
+		const storage = new MemoryStorage();
+		const property = new StatefulProperty<string>({ storage, key: 'greeting', version: 2 });
+
+		property.set('Hello');
+
+		expect(storage.get('greeting')).toEqual({ $state: { version: 2 }, value: 'Hello' });
+	});
+
+	it('migrates stored values step by step to the current version', () => {
+
+		const storage = new MemoryStorage();
+
+		storage.set('user', 'Jane Doe');
+
+		const property = new StatefulProperty<{ firstName: string, lastName: string, title?: string }>({
+			storage,
+			key: 'user',
+			version: 2,
+			migrations: {
+				0: (name: string): { name: string } => ({ name }),
+				1: ({ name }: { name: string }): { firstName: string, lastName: string } => {
+					const [firstName, lastName] = name.split(' ');
+					return { firstName, lastName };
+				}
+			}
+		});
+
+		expect(property.get()).toEqual({ firstName: 'Jane', lastName: 'Doe' });
+		expect(storage.get('user')).toEqual({ $state: { version: 2 }, value: { firstName: 'Jane', lastName: 'Doe' } });
+	});
+
+	it('discards stored values that can not be migrated', () => {
+
+		const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+		const storage = new MemoryStorage();
+
+		storage.set('missing', { $state: { version: 1 }, value: 'a' });
+		storage.set('newer', { $state: { version: 3 }, value: 'b' });
+
+		const missing = new StatefulProperty<string>({ storage, key: 'missing', version: 2, migrations: { 0: (value: string): string => value } });
+		const newer = new StatefulProperty<string>({ storage, key: 'newer', version: 2 });
+
+		expect(missing.exists()).toBe(false);
+		expect(newer.exists()).toBe(false);
+		expect(storage.keys()).toEqual([]);
+		expect(error).toHaveBeenCalledTimes(2);
+
+		error.mockRestore();
+	});
+
+	it('replaces stored values that can not be migrated with the value from the failure handler', async () => {
+
+		const storage = new MemoryAsyncStorage();
+
+		await storage.set('theme', { $state: { version: 1 }, value: 'blue' });
+
+		const onMigrationFailure = vi.fn(() => 'light');
+		const property = new StatefulProperty<string>({
+			storage,
+			key: 'theme',
+			version: 2,
+			migrations: { 1: (): never => { throw new Error('Unknown theme'); } },
+			onMigrationFailure
+		});
+
+		await StateManager.allSettled;
+
+		expect(onMigrationFailure).toHaveBeenCalledWith('blue', 1);
+		expect(property.get()).toBe('light');
+
+		await vi.waitFor(async () => expect(await storage.get('theme')).toEqual({ $state: { version: 2 }, value: 'light' }));
+	});
+
+	it('migrates serialized values', () => {
+
+		const storage = new MemoryStorage();
+
+		storage.set('created', '{"$type":"Date","value":0}');
+
+		const property = new StatefulProperty<{ createdAt: Date }>({
+			storage,
+			key: 'created',
+			serializer: TaggedJsonSerializer,
+			version: 1,
+			migrations: { 0: (createdAt: Date): { createdAt: Date } => ({ createdAt }) }
+		});
+
+		expect(property.get().createdAt).toEqual(new Date(0));
+		expect(storage.get('created')).toBe('{"$state":{"version":1},"value":{"createdAt":{"$type":"Date","value":0}}}');
+	});
+
+	it('rejects and removes stored values that fail the type guard', () => {
+
+		const storage = new MemoryStorage();
+
+		storage.set('counter', { count: 'five' });
+
+		const onValidationFailure = vi.fn();
+		const property = new StatefulProperty<{ count: number }>({
+			storage,
+			key: 'counter',
+			validate: (value): value is { count: number } => typeof (value as { count?: unknown }).count === 'number',
+			onValidationFailure
+		});
+
+		expect(property.exists()).toBe(false);
+		expect(storage.get('counter')).toBeUndefined();
+		expect(onValidationFailure).toHaveBeenCalledWith({ count: 'five' }, [{ message: 'The value failed validation.' }]);
+	});
+
+	it('validates stored values with a Standard Schema', () => {
+
+		const storage = new MemoryStorage();
+		const schema: StandardSchema<number> = {
+			'~standard': {
+				version: 1,
+				vendor: 'test',
+				validate: (value) => typeof value === 'string' && !isNaN(Number(value)) ? { value: Number(value) } : { issues: [{ message: 'Expected a numeric string' }] }
+			}
+		};
+
+		storage.set('valid', '42');
+		storage.set('invalid', 'forty-two');
+
+		const onValidationFailure = vi.fn();
+		const valid = new StatefulProperty<number>({ storage, key: 'valid', validate: schema, onValidationFailure });
+		const invalid = new StatefulProperty<number>({ storage, key: 'invalid', validate: schema, onValidationFailure });
+
+		expect(valid.get()).toBe(42);
+		expect(invalid.exists()).toBe(false);
+		expect(storage.keys()).toEqual(['valid']);
+		expect(onValidationFailure).toHaveBeenCalledWith('forty-two', [{ message: 'Expected a numeric string' }]);
+	});
+
+	it('waits for asynchronous schemas to validate values restored from asynchronous storage', async () => {
+
+		const storage = new MemoryAsyncStorage();
+		const schema: StandardSchema<number> = {
+			'~standard': {
+				version: 1,
+				vendor: 'test',
+				validate: (value) => Promise.resolve(typeof value === 'number' ? { value } : { issues: [{ message: 'Expected a number' }] })
+			}
+		};
+
+		await storage.set('valid', 42);
+		await storage.set('invalid', 'forty-two');
+
+		const onValidationFailure = vi.fn();
+		const valid = new StatefulProperty<number>({ storage, key: 'valid', validate: schema, onValidationFailure });
+		const invalid = new StatefulProperty<number>({ storage, key: 'invalid', validate: schema, onValidationFailure });
+
+		await Promise.all([valid.ready, invalid.ready]);
+		await StateManager.flush();
+
+		expect(valid.get()).toBe(42);
+		expect(invalid.exists()).toBe(false);
+		await expect(storage.keys()).resolves.toEqual(['valid']);
+		expect(onValidationFailure).toHaveBeenCalledWith('forty-two', [{ message: 'Expected a number' }]);
+	});
+
+	it('waits for asynchronous schemas to validate values restored from synchronous storage', async () => {
+
+		const storage = new MemoryStorage();
+		const schema: StandardSchema<number> = {
+			'~standard': {
+				version: 1,
+				vendor: 'test',
+				validate: (value) => Promise.resolve(typeof value === 'number' ? { value } : { issues: [{ message: 'Expected a number' }] })
+			}
+		};
+
+		storage.set('valid', 42);
+		storage.set('invalid', 'forty-two');
+
+		const onValidationFailure = vi.fn();
+		const valid = new StatefulProperty<number>({ storage, key: 'valid', validate: schema, onValidationFailure });
+		const invalid = new StatefulProperty<number>({ storage, key: 'invalid', validate: schema, onValidationFailure });
+		const handler = vi.fn();
+
+		valid.subscribe(handler);
+
+		expect(valid.loading).toBe(true);
+
+		await Promise.all([valid.ready, invalid.ready]);
+		await StateManager.flush();
+
+		expect(valid.get()).toBe(42);
+		expect(handler).toHaveBeenCalledWith(42, { value: 42, previous: undefined, source: 'storage-restore' });
+		expect(invalid.exists()).toBe(false);
+		expect(storage.keys()).toEqual(['valid']);
+		expect(onValidationFailure).toHaveBeenCalledWith('forty-two', [{ message: 'Expected a number' }]);
+	});
+
+	it('treats expired values as missing and removes them from storage', () => {
+
+		vi.useFakeTimers({ now: 0 });
+
+		const storage = new MemoryStorage();
+		const property = new StatefulProperty<string>({ storage, key: 'response', ttl: 1000 });
+
+		property.set('cached');
+
+		expect(storage.get('response')).toEqual({ $state: { expiresAt: 1000 }, value: 'cached' });
+		expect(new StatefulProperty<string>({ storage, key: 'response', ttl: 1000 }).get()).toBe('cached');
+
+		vi.setSystemTime(1000);
+
+		expect(new StatefulProperty<string>({ storage, key: 'response', ttl: 1000 }).exists()).toBe(false);
+		expect(storage.get('response')).toBeUndefined();
+
+		vi.useRealTimers();
+	});
+
+	it('debounces storage writes, while notifying subscribers immediately', () => {
+
+		vi.useFakeTimers();
+
+		const storage = new MemoryStorage();
+		const property = new StatefulProperty<string>({ storage, key: 'search', persist: { debounce: 300 } });
+		const handler = vi.fn();
+
+		property.subscribe(handler);
+		property.set('a');
+		vi.advanceTimersByTime(200);
+		property.set('ab');
+
+		expect(handler).toHaveBeenCalledTimes(2);
+		expect(storage.get('search')).toBeUndefined();
+
+		vi.advanceTimersByTime(299);
+
+		expect(storage.get('search')).toBeUndefined();
+
+		vi.advanceTimersByTime(1);
+
+		expect(storage.get('search')).toBe('ab');
+
+		vi.useRealTimers();
+	});
+
+	it('throttles storage writes to at most one per window, with the latest value', () => {
+
+		vi.useFakeTimers();
+
+		const storage = new MemoryStorage();
+		const property = new StatefulProperty<number>({ storage, key: 'scroll', persist: { throttle: 100 } });
+
+		property.set(1);
+
+		expect(storage.get('scroll')).toBe(1);
+
+		property.set(2);
+		property.set(3);
+
+		expect(storage.get('scroll')).toBe(1);
+
+		vi.advanceTimersByTime(100);
+
+		expect(storage.get('scroll')).toBe(3);
+
+		vi.useRealTimers();
+	});
+
+	it('writes deferred values immediately when flushed', async () => {
+
+		vi.useFakeTimers();
+
+		const storage = new MemoryStorage();
+		const property = new StatefulProperty<string>({ storage, key: 'draft', persist: { debounce: 1000, throttle: 5000 } });
+
+		property.set('unsaved');
+
+		await StateManager.flush();
+
+		expect(storage.get('draft')).toBe('unsaved');
+
+		vi.useRealTimers();
+	});
+
+	it('writes deferred values immediately when the page is hidden or unloaded', () => {
+
+		vi.useFakeTimers();
+
+		const page = new EventTarget();
+		const document = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+
+		vi.stubGlobal('addEventListener', page.addEventListener.bind(page));
+		vi.stubGlobal('document', document);
+
+		const storage = new MemoryStorage();
+		const debounced = new StatefulProperty<string>({ storage, key: 'draft', persist: { debounce: 1000 } });
+		const throttled = new StatefulProperty<number>({ storage, key: 'scroll', persist: { throttle: 1000 } });
+
+		debounced.set('hidden');
+		throttled.set(1);
+		throttled.set(2);
+
+		document.dispatchEvent(new Event('visibilitychange'));
+
+		expect(storage.get('draft')).toBeUndefined();
+		expect(storage.get('scroll')).toBe(1);
+
+		document.visibilityState = 'hidden';
+		document.dispatchEvent(new Event('visibilitychange'));
+
+		expect(storage.get('draft')).toBe('hidden');
+		expect(storage.get('scroll')).toBe(2);
+
+		debounced.set('unloaded');
+		throttled.set(3);
+		throttled.set(4);
+
+		expect(storage.get('draft')).toBe('hidden');
+		expect(storage.get('scroll')).toBe(3);
+
+		page.dispatchEvent(new Event('pagehide'));
+
+		expect(storage.get('draft')).toBe('unloaded');
+		expect(storage.get('scroll')).toBe(4);
+
+		vi.unstubAllGlobals();
+		vi.useRealTimers();
+	});
+});
\ No newline at end of file
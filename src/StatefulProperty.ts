@@ -1,10 +1,17 @@
 import { ObservableProperty } from './ObservableProperty.js';
 import { StateManager } from './StateManager.js';
-import { PropertySetHandler } from './types.js';
+import { ImmutableMode, PropertyChangeSource, PropertySetHandler, StateOptions, StorageChangeHandler } from './types.js';
 import { AsyncStorage } from './types/AsyncStorage.js';
 import { SyncStorage } from './types/SyncStorage.js';
+import { scheduleWrite } from './utilities/batchUpdates.js';
+import { decodeState } from './utilities/decodeState.js';
 import { isDefined } from './utilities/isDefined.js';
 import { isPromise } from './utilities/isPromise.js';
+import { isObservableStorage } from './utilities/isObservableStorage.js';
+import { observeStorageKeyWeakly } from './utilities/observeStorageKeyWeakly.js';
+import { persistState } from './utilities/persistState.js';
+import { restoreState } from './utilities/restoreState.js';
+import { whenResolved } from './utilities/whenResolved.js';
 
 /**
  * Property wrapper that can be observed for changes.
@@ -25,6 +32,37 @@ export class StatefulProperty<T> extends ObservableProperty<T> {
 	 */
 	private _key: string;
 
+	/**
+	 * The options that control how the value is persisted, e.g. its serializer and version.
+	 */
+	private _options: StateOptions<T>;
+
+	/**
+	 * The subscriber registered on storage to keep the value in sync with changes made from outside of the app, if any.
+	 */
+	private _storageListener?: StorageChangeHandler;
+
+	/**
+	 * Whether the property value is being restored from asynchronous storage.
+	 */
+	private _loading: boolean;
+
+	/**
+	 * Whether the property value was set since the property was constructed, in which case it is not replaced by the value restored
+	 * from asynchronous storage.
+	 */
+	private _dirty: boolean;
+
+	/**
+	 * The reason the property value could not be restored from storage, if any.
+	 */
+	private _error?: unknown;
+
+	/**
+	 * The promise that resolves once the property value is restored from storage, or failed to restore.
+	 */
+	private _ready: Promise<void>;
+
 	// ------------
 	// CONSTRUCTORS
 	// ------------
@@ -33,10 +71,24 @@ export class StatefulProperty<T> extends ObservableProperty<T> {
 	 * Initializes the property.
 	 * 
 	 * @param args - The property arguments.
+	 * - storage: The storage mechanism to save the value in.
+	 * - key: The key to save the value under.
+	 * - sync: Whether to update the property value when it is changed in storage from outside of the app, e.g. by another browser tab, defaults to true.
+	 * - skipUnchanged: Whether to skip notifying subscribers when the property is set to a value that deep equals its current value, defaults to false.
+	 * - immutable: How to protect the value from being modified by reference, i.e. "freeze" or "copy", defaults to the global `StateManager.immutable` mode.
+	 * - serializer: The serializer to convert the value to and from a string with before saving it in storage, if any.
+	 * - version: The version of the value shape, recorded with the value in storage, if any.
+	 * - migrations: The functions to migrate a value restored from storage step by step to the current version, keyed by the version they migrate from.
+	 * - onMigrationFailure: The function to call when a value restored from storage can not be migrated, returning a replacement value or undefined to discard it.
+	 * - ttl: The time in milliseconds a value remains valid in storage after it is set, if any. Expired values are treated as missing and removed when restored.
+	 * - expiresAt: The time a value expires at in storage, as a Date or milliseconds since the epoch, if any. Takes precedence over `ttl`.
+	 * - validate: The type guard function or Standard Schema compatible validator to check values restored from storage with, discarding invalid values.
+	 * - onValidationFailure: The function to call when a value restored from storage is rejected by the validator, defaults to logging the problems to the console.
+	 * - persist: How often to write the value to storage, i.e. `debounce` and / or `throttle` times in milliseconds, writing every value immediately if not set.
 	 */
-	constructor({ storage, key }: { storage: SyncStorage | AsyncStorage, key: string }) {
+	constructor({ storage, key, sync = true, skipUnchanged, immutable, ...options }: { storage: SyncStorage | AsyncStorage, key: string, sync?: boolean, skipUnchanged?: boolean, immutable?: ImmutableMode } & StateOptions<T>) {
 
-		super();
+		super({ skipUnchanged, immutable });
 
 		// Validate the property parameters.
 		if (!storage) {
@@ -50,40 +102,102 @@ export class StatefulProperty<T> extends ObservableProperty<T> {
 		// Set default property values.
 		this._storage = storage;
 		this._key = key;
+		this._options = options;
+		this._loading = false;
+		this._dirty = false;
+		this._ready = Promise.resolve();
 
 		// Restore the property value from storage.
 		this._initFromStorage();
+
+		// Keep the property value in sync with changes made to storage from outside of the app, e.g. by another browser tab, if enabled,
+		// and re-hydrate it when the storage switches context, for as long as the property is in use. The handler is given the property
+		// rather than referencing it, as that would keep the property from being garbage collected, and bypasses StatefulProperty.set to
+		// prevent saving the value back into storage.
+		this._storageListener = observeStorageKeyWeakly(this._storage, this._key, this, (property, value) => {
+			whenResolved(decodeState(value, options), (decoded) => ObservableProperty.prototype.set.call(property, decoded.value as T, 'remote'));
+		}, sync);
 	}
 
 	// ----------------
 	// PUBLIC FUNCTIONS
 	// ----------------
 
+	/**
+	 * Check if the property value is being restored from asynchronous storage, e.g. to show a placeholder while loading.
+	 * 
+	 * @returns True if the value is being restored, otherwise false.
+	 */
+	get loading(): boolean {
+
+		return this._loading;
+	}
+
+	/**
+	 * Get the reason the property value could not be restored from storage, if any.
+	 * 
+	 * @returns The error, or undefined if the value was restored.
+	 */
+	get error(): unknown {
+
+		return this._error;
+	}
+
+	/**
+	 * Promise that can be awaited to guarantee the property value has been restored from storage. Resolves immediately for synchronous
+	 * storage, and never rejects, thus check `error` once resolved to find out if the value could not be restored.
+	 * 
+	 * @returns Nothing.
+	 */
+	get ready(): Promise<void> {
+
+		return this._ready;
+	}
+
 	/**
 	 * Sets the property value, and then persists the property value into the configured storage mechanism.
 	 * 
 	 * The value may either be:
 	 *   1) a direct value matching the property type, or
-	 *   2) a function that will be called with a template of the current property value, that may be modified and will replace the property value when complete
+	 *   2) a function that will be called with a draft of the current property value, that may be modified and will replace the property value when complete,
+	 *      or that may return a replacement value
 	 * 
 	 * @param valueOrFunction - The value to set, or the function to call.
+	 * @param source - The source of the change, reported to subscribers, defaults to "set".
 	 * 
 	 * @returns Nothing.
 	 */
-	override set(valueOrFunction: T | PropertySetHandler<T>): void {
+	override set(valueOrFunction: T | PropertySetHandler<T>, source: PropertyChangeSource = 'set'): void {
 
 		// Set the new property value.
-		super.set(valueOrFunction);
+		super.set(valueOrFunction, source);
 
-		// Get the new property value in serializable form, i.e. not a function.
-		const newValue = super.get();
+		this._dirty = true;
 
-		// Save / remove the property value in storage.
-		if (newValue === undefined || newValue === null) {
-			void this._storage.remove(this._key);
-		} else {
-			void this._storage.set(this._key, newValue);
+		// Save / remove the property value in storage, deferred until the batch completes if the property is set within a batch, and
+		// coalesced with later values if configured.
+		scheduleWrite(this, () => {
+
+			// Get the new property value in serializable form, i.e. not a function, once the write runs.
+			persistState(this._storage, this._key, () => super.get(), this._options);
+		});
+	}
+
+	/**
+	 * Releases the resources held by the property, by removing all subscribers and no longer following changes made to storage from
+	 * outside of the app. The property value remains available.
+	 * 
+	 * @returns Nothing.
+	 */
+	override dispose(): void {
+
+		super.dispose();
+
+		if (this._storageListener && isObservableStorage(this._storage)) {
+			this._storage.unsubscribe(this._storageListener);
 		}
+
+		this._storageListener = undefined;
 	}
 
 	// -----------------
@@ -96,29 +210,43 @@ export class StatefulProperty<T> extends ObservableProperty<T> {
 	_initFromStorage(): void {
 
 		// Read the property value from storage.
-		const storageValue = this._storage.get<T>(this._key);
+		const storageValue = this._storage.get<unknown>(this._key);
+
+		if (!isDefined(storageValue)) {
+			return;
+		}
+
+		// Convert the value read from storage into the property value, waiting for async storage and asynchronous schemas.
+		const value = isPromise(storageValue) ? Promise.resolve(storageValue).then((storedValue) => restoreState(this._storage, this._key, storedValue, this._options)) : restoreState(this._storage, this._key, storageValue, this._options);
 
-		if (isDefined(storageValue)) {
+		// If the value is restored asynchronously, then queue the value to be read, otherwise just set the value as the property's initial value.
+		if (isPromise(value)) {
 
-			// If the storage is async, then queue the value to be read, otherwise just set the storage value as the property's initial value.
-			if (isPromise(storageValue)) {
+			const load = Promise.resolve(value).then((restoredValue) => {
 
-				StateManager.enqueue(this._key, Promise.resolve(storageValue).then((value) => {
+				// Initialize the property with the value read from storage, unless a value was set while it was read.
+				if (!this._dirty) {
+					super.set(restoredValue as T, 'storage-restore');
+				}
 
-					// Initialize the property with the value read from storage.
-					super.set(value as T);
+				return restoredValue;
+			});
 
-					// Clean up, by removing the operation from read the queue.
-					StateManager.dequeue(this._key);
+			StateManager.enqueue(this._key, load);
 
-					return value;
-				}));
+			// Track the loading state of the property, reporting the reason if the value could not be read.
+			this._loading = true;
+			this._ready = load.then(() => {
+				this._loading = false;
+			}, (err: unknown) => {
+				this._loading = false;
+				this._error = err;
+			});
 
-			} else {
+		} else {
 
-				// Initialize the property with the value read from storage.
-				super.set(storageValue as T);
-			}
+			// Initialize the property with the value read from storage.
+			super.set(value as T, 'storage-restore');
 		}
 	}
 }
\ No newline at end of file
@@ -0,0 +1,502 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { StandardSchema } from '../types/StandardSchema.js';
+import { ObservableProperty } from '../ObservableProperty.js';
+import { StateManager } from '../StateManager.js';
+import { MemoryAsyncStorage } from '../stores/MemoryAsyncStorage.js';
+import { MemoryStorage } from '../stores/MemoryStorage.js';
+import { collectGarbage, compileClass, ObservableMemoryStorage } from '../testHelpers.tests.js';
+import { state } from './state.js';
+
+describe('state', () => {
+
+	afterEach(() => {
+
+		vi.useRealTimers();
+	});
+
+	describe('accessors', () => {
+
+		it('restores the value from synchronous storage, and persists values set', () => {
+
+			const storage = new MemoryStorage();
+
+			storage.set('greeting', 'Hello');
+
+			const Subject = compileClass<new () => { greeting: string }>(`
+				class Subject {
+					@state({ storage, key: 'greeting' })
+					accessor greeting = 'Hi';
+				}
+			`, { state, storage });
+
+			const subject = new Subject();
+
+			expect(subject.greeting).toBe('Hello');
+
+			subject.greeting = 'World';
+
+			expect(storage.get('greeting')).toBe('World');
+		});
+
+		it('restores the value from asynchronous storage', async () => {
+
+			const storage = new MemoryAsyncStorage({ latency: 5 });
+
+			await storage.set('greeting', 'Hello');
+
+			const Subject = compileClass<new () => { greeting?: string }>(`
+				class Subject {
+					@state({ storage, key: 'greeting' })
+					accessor greeting;
+				}
+			`, { state, storage });
+
+			const subject = new Subject();
+
+			expect(subject.greeting).toBeUndefined();
+
+			await StateManager.allSettled;
+
+			expect(subject.greeting).toBe('Hello');
+		});
+
+		it('restores the value from asynchronous storage over the initial value, unless a value is assigned while it loads', async () => {
+
+			const storage = new MemoryAsyncStorage({ latency: 5 });
+
+			await storage.set('greeting', 'Hello');
+
+			const Subject = compileClass<new () => { greeting: string }>(`
+				class Subject {
+					@state({ storage, key: 'greeting' })
+					accessor greeting = 'Hi';
+				}
+			`, { state, storage });
+
+			const restored = new Subject();
+			const assigned = new Subject();
+
+			expect(restored.greeting).toBe('Hi');
+
+			assigned.greeting = 'World';
+
+			await StateManager.allSettled;
+
+			expect(restored.greeting).toBe('Hello');
+			expect(assigned.greeting).toBe('World');
+			expect(await storage.get('greeting')).toBe('World');
+		});
+
+		it('resolves key functions on first access, once the constructor assigned the instance values', () => {
+
+			const storage = new MemoryStorage();
+
+			storage.set('account-card-1', true);
+
+			const AccountCard = compileClass<new (accountId: string) => { expanded: boolean }>(`
+				class Subject {
+
+					constructor(readonly accountId: string) { }
+
+					@state({ storage, key: (card) => \`account-card-\${card.accountId}\` })
+					accessor expanded = false;
+				}
+			`, { state, storage });
+
+			const first = new AccountCard('1');
+			const second = new AccountCard('2');
+
+			expect(first.expanded).toBe(true);
+			expect(second.expanded).toBe(false);
+
+			second.expanded = true;
+			first.expanded = false;
+
+			expect(storage.get('account-card-1')).toBe(false);
+			expect(storage.get('account-card-2')).toBe(true);
+			expect(storage.keys()).not.toContain('account-card-undefined');
+		});
+
+		it('keeps a separate value for each class instance', () => {
+
+			const storage = new MemoryStorage();
+
+			const Subject = compileClass<new () => { count: number }>(`
+				class Subject {
+					@state({ storage, key: 'count' })
+					accessor count = 0;
+				}
+			`, { state, storage });
+
+			const first = new Subject();
+			const second = new Subject();
+
+			expect([first.count, second.count]).toEqual([0, 0]);
+
+			first.count = 5;
+
+			expect(first.count).toBe(5);
+			expect(second.count).toBe(0);
+		});
+
+		it('updates the value when changed in storage by another tab, unless opted out', () => {
+
+			const storage = new ObservableMemoryStorage();
+
+			const Subject = compileClass<new () => { synced?: string, unsynced?: string }>(`
+				class Subject {
+					@state({ storage, key: 'synced' })
+					accessor synced;
+
+					@state({ storage, key: 'unsynced', sync: false })
+					accessor unsynced;
+				}
+			`, { state, storage });
+
+			const subject = new Subject();
+
+			expect([subject.synced, subject.unsynced]).toEqual([undefined, undefined]);
+
+			storage.changeExternally({ key: 'synced', value: 'Hello' });
+			storage.changeExternally({ key: 'unsynced', value: 'World' });
+
+			expect(subject.synced).toBe('Hello');
+			expect(subject.unsynced).toBeUndefined();
+		});
+
+		it('stops updating the value when changed in storage by another tab, once the class instance is garbage collected', async () => {
+
+			const storage = new ObservableMemoryStorage();
+
+			const Subject = compileClass<new () => { synced?: string }>(`
+				class Subject {
+					@state({ storage, key: 'synced' })
+					accessor synced;
+				}
+			`, { state, storage });
+
+			let subject: { synced?: string } | undefined = new Subject();
+
+			expect(subject.synced).toBeUndefined();
+			expect(storage.subscribers).toHaveLength(1);
+
+			subject = undefined;
+
+			await collectGarbage(() => storage.subscribers.length === 0);
+
+			expect(storage.subscribers).toHaveLength(0);
+		});
+	});
+
+	describe('fields', () => {
+
+		it('restores the value of an ObservableProperty, and persists values set', () => {
+
+			const storage = new MemoryStorage();
+
+			storage.set('profile', { name: 'Jane' });
+
+			const Subject = compileClass<new () => { profile: ObservableProperty<{ name: string }> }>(`
+				class Subject {
+					@state({ storage, key: 'profile' })
+					profile = new ObservableProperty();
+				}
+			`, { state, storage, ObservableProperty });
+
+			const subject = new Subject();
+
+			expect(subject.profile.get()).toEqual({ name: 'Jane' });
+
+			subject.profile.set({ name: 'John' });
+
+			expect(storage.get('profile')).toEqual({ name: 'John' });
+		});
+
+		it('restores the value of an ObservableProperty from asynchronous storage', async () => {
+
+			const storage = new MemoryAsyncStorage({ latency: 5 });
+
+			await storage.set('profile', { name: 'Jane' });
+
+			const Subject = compileClass<new () => { profile: ObservableProperty<{ name: string }> }>(`
+				class Subject {
+					@state({ storage, key: 'profile' })
+					profile = new ObservableProperty();
+				}
+			`, { state, storage, ObservableProperty });
+
+			const subject = new Subject();
+			const handler = vi.fn();
+
+			subject.profile.subscribe(handler);
+
+			await StateManager.allSettled;
+
+			expect(subject.profile.get()).toEqual({ name: 'Jane' });
+			expect(handler).toHaveBeenCalledWith({ name: 'Jane' }, { value: { name: 'Jane' }, previous: undefined, source: 'storage-restore' });
+		});
+
+		it('resolves key functions with the class fields declared before the field', () => {
+
+			const storage = new MemoryStorage();
+
+			storage.set('profile-1', { name: 'Jane' });
+			storage.set('profile-2', { name: 'John' });
+
+			const Subject = compileClass<new () => { profile: ObservableProperty<{ name: string }> }>(`
+				let nextId = 1;
+
+				class Subject {
+
+					id = String(nextId++);
+
+					@state({ storage, key: (subject) => \`profile-\${subject.id}\` })
+					profile = new ObservableProperty();
+				}
+			`, { state, storage, ObservableProperty });
+
+			expect(new Subject().profile.get()).toEqual({ name: 'Jane' });
+			expect(new Subject().profile.get()).toEqual({ name: 'John' });
+		});
+
+		it('stops updating the value when changed in storage by another tab, once the ObservableProperty is garbage collected', async () => {
+
+			const storage = new ObservableMemoryStorage();
+
+			const Subject = compileClass<new () => { profile: ObservableProperty<{ name: string }> }>(`
+				class Subject {
+					@state({ storage, key: 'profile' })
+					profile = new ObservableProperty();
+				}
+			`, { state, storage, ObservableProperty });
+
+			let subject: { profile: ObservableProperty<{ name: string }> } | undefined = new Subject();
+
+			storage.changeExternally({ key: 'profile', value: { name: 'Jane' } });
+
+			expect(subject.profile.get()).toEqual({ name: 'Jane' });
+
+			subject = undefined;
+
+			await collectGarbage(() => storage.subscribers.length === 0);
+
+			expect(storage.subscribers).toHaveLength(0);
+		});
+
+		it('requires fields to be initialized with an ObservableProperty', () => {
+
+			const storage = new MemoryStorage();
+
+			const Subject = compileClass<new () => object>(`
+				class Subject {
+					@state({ storage, key: 'greeting' })
+					greeting = 'Hello';
+				}
+			`, { state, storage });
+
+			expect(() => new Subject()).toThrow('state - "greeting" can only decorate plain class fields initialized with an ObservableProperty');
+		});
+	});
+
+	describe('options', () => {
+
+		it('migrates values restored from an older version, and saves them back', () => {
+
+			const storage = new MemoryStorage();
+
+			storage.set('user', 'Jane Doe');
+
+			const Subject = compileClass<new () => { user: { firstName: string, lastName: string } }>(`
+				class Subject {
+					@state({
+						storage,
+						key: 'user',
+						version: 1,
+						migrations: { 0: (name) => ({ firstName: name.split(' ')[0], lastName: name.split(' ')[1] }) }
+					})
+					accessor user;
+				}
+			`, { state, storage });
+
+			const subject = new Subject();
+
+			expect(subject.user).toEqual({ firstName: 'Jane', lastName: 'Doe' });
+			expect(storage.get('user')).toEqual({ $state: { version: 1 }, value: { firstName: 'Jane', lastName: 'Doe' } });
+		});
+
+		it('discards expired values', () => {
+
+			const storage = new MemoryStorage();
+
+			storage.set('token', { $state: { expiresAt: Date.now() - 1 }, value: 'abc' });
+
+			const Subject = compileClass<new () => { token?: string }>(`
+				class Subject {
+					@state({ storage, key: 'token', ttl: 60000 })
+					accessor token;
+				}
+			`, { state, storage });
+
+			const subject = new Subject();
+
+			expect(subject.token).toBeUndefined();
+			expect(storage.get('token')).toBeUndefined();
+		});
+
+		it('saves values with their expiry time', () => {
+
+			vi.useFakeTimers({ now: 1000 });
+
+			const storage = new MemoryStorage();
+
+			const Subject = compileClass<new () => { token?: string }>(`
+				class Subject {
+					@state({ storage, key: 'token', ttl: 60000 })
+					accessor token;
+				}
+			`, { state, storage });
+
+			const subject = new Subject();
+
+			subject.token = 'abc';
+
+			expect(storage.get('token')).toEqual({ $state: { expiresAt: 61000 }, value: 'abc' });
+		});
+
+		it('keeps the expiry time of values restored from storage, until they expire', () => {
+
+			vi.useFakeTimers({ now: 1000, toFake: ['Date'] });
+
+			const storage = new MemoryStorage();
+
+			storage.set('token', { $state: { expiresAt: 2000 }, value: 'abc' });
+
+			const Subject = compileClass<new () => { token?: string }>(`
+				class Subject {
+					@state({ storage, key: 'token', ttl: 86400000 })
+					accessor token;
+				}
+			`, { state, storage });
+
+			expect(new Subject().token).toBe('abc');
+			expect(storage.get('token')).toEqual({ $state: { expiresAt: 2000 }, value: 'abc' });
+
+			vi.setSystemTime(2000);
+
+			expect(new Subject().token).toBeUndefined();
+			expect(storage.get('token')).toBeUndefined();
+		});
+
+		it('keeps the expiry time of values restored from asynchronous storage', async () => {
+
+			vi.useFakeTimers({ now: 1000, toFake: ['Date'] });
+
+			const storage = new MemoryAsyncStorage();
+
+			await storage.set('token', { $state: { expiresAt: 2000 }, value: 'abc' });
+
+			const Subject = compileClass<new () => { token?: string }>(`
+				class Subject {
+					@state({ storage, key: 'token', ttl: 86400000 })
+					accessor token;
+				}
+			`, { state, storage });
+
+			const subject = new Subject();
+
+			expect(subject.token).toBeUndefined();
+
+			await StateManager.allSettled;
+			await StateManager.flush();
+
+			expect(subject.token).toBe('abc');
+			await expect(storage.get('token')).resolves.toEqual({ $state: { expiresAt: 2000 }, value: 'abc' });
+		});
+
+		it('keeps the expiry time of values migrated from an older version', () => {
+
+			vi.useFakeTimers({ now: 1000, toFake: ['Date'] });
+
+			const storage = new MemoryStorage();
+
+			storage.set('user', { $state: { expiresAt: 2000 }, value: 'Jane Doe' });
+
+			const Subject = compileClass<new () => { user: { firstName: string, lastName: string } }>(`
+				class Subject {
+					@state({
+						storage,
+						key: 'user',
+						ttl: 86400000,
+						version: 1,
+						migrations: { 0: (name) => ({ firstName: name.split(' ')[0], lastName: name.split(' ')[1] }) }
+					})
+					accessor user;
+				}
+			`, { state, storage });
+
+			expect(new Subject().user).toEqual({ firstName: 'Jane', lastName: 'Doe' });
+			expect(storage.get('user')).toEqual({ $state: { version: 1, expiresAt: 2000 }, value: { firstName: 'Jane', lastName: 'Doe' } });
+		});
+
+		it('discards values that fail validation', () => {
+
+			const storage = new MemoryStorage();
+			const onValidationFailure = vi.fn();
+
+			storage.set('count', 'five');
+
+			const Subject = compileClass<new () => { count: number }>(`
+				class Subject {
+					@state({ storage, key: 'count', validate: (value) => typeof value === 'number', onValidationFailure })
+					accessor count = 0;
+				}
+			`, { state, storage, onValidationFailure });
+
+			const subject = new Subject();
+
+			expect(subject.count).toBe(0);
+			expect(onValidationFailure).toHaveBeenCalledWith('five', [{ message: 'The value failed validation.' }]);
+		});
+
+		it('restores values from synchronous storage once validated by an asynchronous schema', async () => {
+
+			const storage = new MemoryStorage();
+			const schema: StandardSchema<number> = {
+				'~standard': {
+					version: 1,
+					vendor: 'test',
+					validate: (value) => Promise.resolve(typeof value === 'number' ? { value } : { issues: [{ message: 'Expected a number' }] })
+				}
+			};
+
+			storage.set('count', 5);
+			storage.set('observed', 7);
+
+			const Subject = compileClass<new () => { count: number, observed: ObservableProperty<number> }>(`
+				class Subject {
+					@state({ storage, key: 'count', validate: schema })
+					accessor count = 0;
+
+					@state({ storage, key: 'observed', validate: schema })
+					observed = new ObservableProperty();
+				}
+			`, { state, storage, schema, ObservableProperty });
+
+			const subject = new Subject();
+
+			expect(subject.count).toBe(0);
+			expect(subject.observed.exists()).toBe(false);
+
+			await StateManager.allSettled;
+
+			expect(subject.count).toBe(5);
+			expect(subject.observed.get()).toBe(7);
+
+			subject.observed.set(8);
+
+			expect(storage.get('count')).toBe(5);
+			expect(storage.get('observed')).toBe(8);
+		});
+	});
+});
\ No newline at end of file
@@ -0,0 +1,434 @@
+/*
+ * IMPORTANT
+ * 
+ * This is a class field / accessor decorator, based on the Stage 3 decorators proposal at TC39 as
+ * implemented by TypeScript 5.0 and later (without the "experimentalDecorators" flag) and Babel
+ * (version: "2023-05").
+ * 
+ * Stage 3 decorators are unable to replace the property descriptor of a plain class field, thus the
+ * decorator behaves differently depending on the kind of class member it is applied to:
+ *   1) Auto accessors (`accessor myProperty = ...`) are fully supported, with any value assigned to the
+ *      property being saved into storage.
+ *   2) Plain class fields (`myProperty = ...`) are only supported for ObservableProperty values, where
+ *      the ObservableProperty.set function is patched to save values into storage.
+ * 
+ * Projects still making use of the legacy decorator implementations should use the `stateExperimental`
+ * decorator instead, found in './stateExperimental.ts'.
+ * 
+ * More info here:
+ *   - TC39 Status = https://github.com/tc39/proposal-decorators
+ *   - TypeScript 5 Decorators = https://devblogs.microsoft.com/typescript/announcing-typescript-5-0/#decorators
+ *   - Babel Decorators Plugin = https://babeljs.io/docs/en/babel-plugin-proposal-decorators
+*/
+
+import { ObservableProperty } from '../ObservableProperty.js';
+import { StateManager } from '../StateManager.js';
+import { AsyncStorage } from '../types/AsyncStorage.js';
+import { SyncStorage } from '../types/SyncStorage.js';
+import { StateKey, StateOptions } from '../types.js';
+import { decodeState } from '../utilities/decodeState.js';
+import { isDefined } from '../utilities/isDefined.js';
+import { isPromise } from '../utilities/isPromise.js';
+import { observeStorageKeyWeakly } from '../utilities/observeStorageKeyWeakly.js';
+import { patchObservablePropertySet } from '../utilities/patchObservablePropertySet.js';
+import { persistState } from '../utilities/persistState.js';
+import { resolveKey } from '../utilities/resolveKey.js';
+import { restoreState } from '../utilities/restoreState.js';
+import { whenResolved } from '../utilities/whenResolved.js';
+
+// -----
+// TYPES
+// -----
+
+/**
+ * The decorator function returned by the `state` decorator factory, applicable to both auto accessors and plain class fields.
+ */
+export type StateDecorator<This> = {
+	<T>(target: ClassAccessorDecoratorTarget<This, T>, context: ClassAccessorDecoratorContext<This, T>): ClassAccessorDecoratorResult<This, T>;
+	<T>(target: undefined, context: ClassFieldDecoratorContext<This, T>): (this: This, value: T) => T;
+};
+
+// -------
+// HELPERS
+// -------
+
+/**
+ * Persist the value of a decorated property, patching ObservableProperty values to save their values into storage when set.
+ * 
+ * @param storage - The storage mechanism to save the value in.
+ * @param key - The key to save the value under.
+ * @param value - The property value to persist.
+ * @param options - The options that control how the value is persisted, e.g. its serializer and version.
+ * 
+ * @returns Nothing.
+ */
+function persistValue(storage: SyncStorage | AsyncStorage, key: string, value: unknown, options: StateOptions<unknown>): void {
+
+	if (value instanceof ObservableProperty) {
+
+		// If the property is an ObservableProperty type, then patch the ObservableProperty.set function to store the property value when the set function is called.
+		patchObservablePropertySet(storage, key, value, options);
+
+	} else {
+
+		// If the property is any other type, then just set the property value in storage directly.
+		persistState(storage, key, () => value, options);
+	}
+}
+
+/**
+ * Resolves the storage key of a decorated property for a given class instance.
+ * 
+ * @param key - The storage key, or the function that returns the storage key for the instance.
+ * @param instance - The class instance the property belongs to.
+ * @param name - The name of the decorated property.
+ * 
+ * @returns The resolved storage key.
+ */
+function resolveStorageKey<This>(key: StateKey<This>, instance: This, name: string | symbol): string {
+
+	const storageKey = resolveKey(key, instance);
+
+	if (!storageKey) {
+		throw new Error(`state - "${String(name)}" requires a "key" to be specified, e.g. "my-property-name".`);
+	}
+
+	return storageKey;
+}
+
+// ------------------------
+// DECORATOR IMPLEMENTATION
+// ------------------------
+
+/**
+ * Class field decorator that saves the value of a property into storage whenever the property value changes.
+ * 
+ * Support is provided for both synchronous and asynchronous storage mechanisms, including:
+ *   1) LocalStorage
+ *   2) SessionStorage
+ *   3) custom storage implementations based of the SyncStorage or AsyncStorage classes.
+ * 
+ * The decorator implements the Stage 3 decorators proposal, as supported by TypeScript 5.0 and later. Any value type
+ * is supported on auto accessors, while plain class fields must be initialized with an ObservableProperty.
+ * 
+ * Each class instance holds its own property value. Auto accessors are lazily initialized from storage on first access of the
+ * property, thus a key function may depend on values assigned by the constructor. Plain class fields are initialized from storage
+ * when the field is initialized, before the constructor assigns any values, thus a key function may only depend on the class fields
+ * declared before it.
+ * 
+ * @param args - The decorator arguments.
+ * - storage: The storage mechanism to write property value changes to.
+ * - key: The storage key to write property values under, or a function returning the storage key for a given class instance.
+ * - sync: Whether to update the property value when it is changed in storage from outside of the app, e.g. by another browser tab, defaults to true.
+ * - serializer: The serializer to convert the value to and from a string with before saving it in storage, if any.
+ * - version: The version of the value shape, recorded with the value in storage, if any.
+ * - migrations: The functions to migrate a value restored from storage step by step to the current version, keyed by the version they migrate from.
+ * - onMigrationFailure: The function to call when a value restored from storage can not be migrated, returning a replacement value or undefined to discard it.
+ * - ttl: The time in milliseconds a value remains valid in storage after it is set, if any. Expired values are treated as missing and removed when restored.
+ * - expiresAt: The time a value expires at in storage, as a Date or milliseconds since the epoch, if any. Takes precedence over `ttl`.
+ * - validate: The type guard function or Standard Schema compatible validator to check values restored from storage with, discarding invalid values.
+ * - onValidationFailure: The function to call when a value restored from storage is rejected by the validator, defaults to logging the problems to the console.
+ * - persist: How often to write the value to storage, i.e. `debounce` and / or `throttle` times in milliseconds, writing every value immediately if not set.
+ * 
+ * ```js
+ * import { ObservableProperty, state } from '@capitec/omni-state';
+ * 
+ * class AppState {
+ * 
+ *   @state({ storage: SessionStorage, key: 'my-property' })
+ *   accessor myProperty = 'Hello World';
+ * 
+ *   @state({ storage: LocalStorage, key: 'settings' })
+ *   appSettings = new ObservableProperty();
+ * }
+ * 
+ * class AccountCard {
+ * 
+ *   constructor(readonly accountId: string) { }
+ * 
+ *   @state({ storage: LocalStorage, key: (card: AccountCard) => `account-card-${card.accountId}` })
+ *   accessor expanded = false;
+ * }
+ * ```
+ * 
+ * @returns The decorator function.
+ */
+export function state<This = any>({ storage, key, sync = true, ...options }: { // eslint-disable-line @typescript-eslint/no-explicit-any
+	storage: SyncStorage | AsyncStorage,
+	key: StateKey<This>,
+	sync?: boolean
+} & StateOptions<unknown>): StateDecorator<This> {
+
+	return function <T>(target: ClassAccessorDecoratorTarget<This, T> | undefined, context: ClassAccessorDecoratorContext<This, T> | ClassFieldDecoratorContext<This, T>): ClassAccessorDecoratorResult<This, T> | ((this: This, value: T) => T) {
+
+		if (context.kind === 'accessor') {
+
+			const accessor = target as ClassAccessorDecoratorTarget<This, T>;
+
+			// Keep track of the storage key resolved for each class instance.
+			const instanceKeys = new WeakMap<object, string>();
+
+			// Keep track of the class instances the property was assigned a value on, as a value assigned while the value is restored from
+			// async storage must not be replaced by the stored value.
+			const assignedInstances = new WeakSet<object>();
+
+			/**
+			 * Updates the property of a class instance with a value changed in storage from outside of the app.
+			 * 
+			 * @param instance - The class instance the property belongs to.
+			 * @param storageValue - The new value in storage.
+			 * 
+			 * @returns Nothing.
+			 */
+			const onStorageChange = function (instance: This & object, storageValue: unknown): void {
+
+				whenResolved(decodeState(storageValue, options), ({ value }) => {
+
+					const propertyValue = accessor.get.call(instance);
+
+					if (propertyValue instanceof ObservableProperty) {
+
+						// Update the ObservableProperty value, bypassing the patched set function to prevent saving the value back into storage.
+						ObservableProperty.prototype.set.call(propertyValue, value, 'remote');
+
+					} else {
+
+						accessor.set.call(instance, value as T);
+					}
+				});
+			};
+
+			/**
+			 * Completes initializing the property of a class instance once its value is read from async storage, or validated by an
+			 * asynchronous schema, and then patches the property to save value changes into storage.
+			 * 
+			 * @param instance - The class instance the property belongs to.
+			 * @param storageKey - The storage key of the instance.
+			 * @param storedValue - The value read from storage.
+			 * @param restoring - The property value restored from storage, or the promise that resolves to it.
+			 * 
+			 * @returns The initialized property value.
+			 */
+			const completeRestore = async function (instance: This, storageKey: string, storedValue: unknown, restoring: unknown): Promise<T> {
+
+				const value = await restoring;
+				let propertyValue = accessor.get.call(instance);
+
+				// Restore the property value from storage, if no value is assigned yet and a value is available in storage.
+				if (isDefined(value)) {
+
+					if (propertyValue instanceof ObservableProperty) {
+
+						if (!propertyValue.exists()) {
+							propertyValue.set(value, 'storage-restore');
+						}
+
+					} else if (!assignedInstances.has(instance as object)) {
+
+						propertyValue = value as T;
+
+						accessor.set.call(instance, propertyValue);
+					}
+				}
+
+				// Patch the property to save value changes into storage, only saving the property value now if no value is stored yet, as
+				// saving the value read from storage again would extend its expiry time.
+				if (propertyValue instanceof ObservableProperty || !isDefined(storedValue)) {
+					persistValue(storage, storageKey, propertyValue, options);
+				}
+
+				// Return the initialized property value.
+				return propertyValue;
+			};
+
+			/**
+			 * Initializes the property of a class instance from storage on first access, resolving its storage key once the instance is
+			 * constructed, as a key function may depend on instance values that are only assigned by the constructor.
+			 * 
+			 * @param instance - The class instance the property belongs to.
+			 * 
+			 * @returns The storage key of the instance.
+			 */
+			const initInstance = function (instance: This): string {
+
+				const existingKey = instanceKeys.get(instance as object);
+
+				if (existingKey) {
+					return existingKey;
+				}
+
+				// Resolve the storage key for the instance.
+				const storageKey = resolveStorageKey(key, instance, context.name);
+
+				instanceKeys.set(instance as object, storageKey);
+
+				// Keep the property value in sync with changes made to storage from outside of the app, e.g. by another browser tab, if enabled,
+				// and re-hydrate it when the storage switches context, for as long as the class instance is in use.
+				observeStorageKeyWeakly(storage, storageKey, instance as This & object, onStorageChange, sync);
+
+				// Patch the property to sync from and to storage when it's value changes.
+				const storageValue = storage.get<unknown>(storageKey);
+
+				if (isPromise(storageValue)) {
+
+					// When the storage system is async, complete the patching operation as an async task.
+					StateManager.enqueue(storageKey, Promise.resolve(storageValue).then((storedValue) => completeRestore(instance, storageKey, storedValue, restoreState(storage, storageKey, storedValue, options))));
+
+					return storageKey;
+				}
+
+				// Set the storage value as the initial property value, if available.
+				const value = restoreState(storage, storageKey, storageValue, options);
+
+				if (isPromise(value)) {
+
+					// When the value is validated by an asynchronous schema, complete the patching operation as an async task.
+					StateManager.enqueue(storageKey, completeRestore(instance, storageKey, storageValue, value));
+
+					return storageKey;
+				}
+
+				let propertyValue = accessor.get.call(instance);
+
+				if (isDefined(value)) {
+
+					if (propertyValue instanceof ObservableProperty) {
+
+						propertyValue.set(value, 'storage-restore');
+
+					} else {
+
+						propertyValue = value as T;
+
+						accessor.set.call(instance, propertyValue);
+					}
+				}
+
+				// Patch the property to save value changes into storage, only saving the property value now if no value is stored yet, as
+				// saving the value read from storage again would extend its expiry time.
+				if (propertyValue instanceof ObservableProperty || !isDefined(storageValue)) {
+					persistValue(storage, storageKey, propertyValue, options);
+				}
+
+				return storageKey;
+			};
+
+			return {
+				get(this: This): T {
+
+					// Initialize the property from storage on first access.
+					initInstance(this);
+
+					return accessor.get.call(this);
+				},
+				set(this: This, value: T): void {
+
+					// Initialize the property from storage on first access.
+					const storageKey = initInstance(this);
+
+					// Save the new property value.
+					accessor.set.call(this, value);
+
+					assignedInstances.add(this as object);
+
+					// Patch the property to save value changes into storage.
+					persistValue(storage, storageKey, value, options);
+				}
+			};
+		}
+
+		if (context.kind === 'field') {
+
+			/**
+			 * Updates an ObservableProperty with a value changed in storage from outside of the app.
+			 * 
+			 * @param observable - The ObservableProperty of a class instance.
+			 * @param storageValue - The new value in storage.
+			 * 
+			 * @returns Nothing.
+			 */
+			const onStorageChange = function (observable: ObservableProperty<unknown>, storageValue: unknown): void {
+
+				// Update the ObservableProperty value, bypassing the patched set function to prevent saving the value back into storage.
+				whenResolved(decodeState(storageValue, options), ({ value }) => ObservableProperty.prototype.set.call(observable, value, 'remote'));
+			};
+
+			/**
+			 * Completes initializing an ObservableProperty once its value is read from async storage, or validated by an asynchronous
+			 * schema, and then patches it to save value changes into storage.
+			 * 
+			 * @param observable - The ObservableProperty of a class instance.
+			 * @param storageKey - The storage key of the instance.
+			 * @param restoring - The property value restored from storage, or the promise that resolves to it.
+			 * 
+			 * @returns The initialized ObservableProperty.
+			 */
+			const completeRestore = async function (observable: ObservableProperty<unknown>, storageKey: string, restoring: unknown): Promise<ObservableProperty<unknown>> {
+
+				const value = await restoring;
+
+				// Restore the property value from storage, if no value is set yet and a value is available in storage.
+				if (isDefined(value) && !observable.exists()) {
+					observable.set(value, 'storage-restore');
+				}
+
+				// Patch the ObservableProperty.set function to store the property value when the set function is called.
+				patchObservablePropertySet(storage, storageKey, observable, options);
+
+				// Return the initialized property value.
+				return observable;
+			};
+
+			return function (this: This, initialValue: T): T {
+
+				// Plain class fields can not be intercepted when assigned, thus only ObservableProperty values are supported.
+				if (!(initialValue instanceof ObservableProperty)) {
+					throw new Error(`state - "${String(context.name)}" can only decorate plain class fields initialized with an ObservableProperty, use an auto accessor instead, e.g. "accessor ${String(context.name)} = ...".`);
+				}
+
+				const observable = initialValue;
+
+				// Resolve the storage key for the instance.
+				const storageKey = resolveStorageKey(key, this, context.name);
+
+				// Keep the property value in sync with changes made to storage from outside of the app, e.g. by another browser tab, if enabled,
+				// and re-hydrate it when the storage switches context, for as long as the ObservableProperty is in use.
+				observeStorageKeyWeakly(storage, storageKey, observable, onStorageChange, sync);
+
+				// Patch the property to sync from and to storage when it's value changes.
+				const storageValue = storage.get<unknown>(storageKey);
+
+				if (isPromise(storageValue)) {
+
+					// When the storage system is async, complete the patching operation as an async task.
+					StateManager.enqueue(storageKey, Promise.resolve(storageValue).then((storedValue) => completeRestore(observable, storageKey, restoreState(storage, storageKey, storedValue, options))));
+
+				} else {
+
+					// Set the storage value as the initial property value, if available.
+					const value = restoreState(storage, storageKey, storageValue, options);
+
+					if (isPromise(value)) {
+
+						// When the value is validated by an asynchronous schema, complete the patching operation as an async task.
+						StateManager.enqueue(storageKey, completeRestore(observable, storageKey, value));
+
+					} else {
+
+						if (isDefined(value)) {
+							observable.set(value, 'storage-restore');
+						}
+
+						// Patch the ObservableProperty.set function to store the property value when the set function is called.
+						patchObservablePropertySet(storage, storageKey, observable, options);
+					}
+				}
+
+				return initialValue;
+			};
+		}
+
+		throw new Error(`state - "${String((context as DecoratorContext).name)}" can only decorate class fields or auto accessors.`);
+
+	} as StateDecorator<This>;
+}
\ No newline at end of file
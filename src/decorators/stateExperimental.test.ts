@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { ObservableProperty } from '../ObservableProperty.js';
+import { StateManager } from '../StateManager.js';
+import { MemoryAsyncStorage } from '../stores/MemoryAsyncStorage.js';
+import { MemoryStorage } from '../stores/MemoryStorage.js';
+import { collectGarbage, compileClass, ObservableMemoryStorage } from '../testHelpers.tests.js';
+import { stateExperimental } from './stateExperimental.js';
+
+describe('stateExperimental', () => {
+
+	afterEach(() => {
+
+		vi.useRealTimers();
+	});
+
+	it('resolves key functions on first access, once the constructor assigned the instance values', () => {
+
+		const storage = new MemoryStorage();
+
+		storage.set('account-card-1', true);
+
+		const AccountCard = compileClass<new (accountId: string) => { expanded?: boolean }>(`
+			class Subject {
+
+				constructor(readonly accountId: string) { }
+
+				@stateExperimental({ storage, key: (card) => \`account-card-\${card.accountId}\` })
+				expanded;
+			}
+		`, { stateExperimental, storage }, true);
+
+		const first = new AccountCard('1');
+		const second = new AccountCard('2');
+
+		expect(first.expanded).toBe(true);
+		expect(second.expanded).toBeUndefined();
+
+		second.expanded = true;
+		first.expanded = false;
+
+		expect(storage.get('account-card-1')).toBe(false);
+		expect(storage.get('account-card-2')).toBe(true);
+	});
+
+	it('keeps a separate value for each class instance', () => {
+
+		const storage = new MemoryStorage();
+
+		const Subject = compileClass<new (id: string) => { profile: ObservableProperty<{ name: string }> }>(`
+			class Subject {
+
+				constructor(readonly id: string) { }
+
+				@stateExperimental({ storage, key: (subject) => \`profile-\${subject.id}\` })
+				profile = new ObservableProperty();
+			}
+		`, { stateExperimental, storage, ObservableProperty }, true);
+
+		const first = new Subject('1');
+		const second = new Subject('2');
+
+		expect(first.profile).not.toBe(second.profile);
+
+		first.profile.set({ name: 'Jane' });
+
+		expect(second.profile.exists()).toBe(false);
+		expect(storage.get('profile-1')).toEqual({ name: 'Jane' });
+		expect(storage.get('profile-2')).toBeUndefined();
+	});
+
+	it('updates the value when changed in storage by another tab, until the class instance is garbage collected', async () => {
+
+		const storage = new ObservableMemoryStorage();
+
+		const Subject = compileClass<new () => { greeting?: string }>(`
+			class Subject {
+				@stateExperimental({ storage, key: 'greeting' })
+				greeting;
+			}
+		`, { stateExperimental, storage }, true);
+
+		let subject: { greeting?: string } | undefined = new Subject();
+
+		expect(subject.greeting).toBeUndefined();
+
+		storage.changeExternally({ key: 'greeting', value: 'Hello' });
+
+		expect(subject.greeting).toBe('Hello');
+
+		subject = undefined;
+
+		await collectGarbage(() => storage.subscribers.length === 0);
+
+		expect(storage.subscribers).toHaveLength(0);
+	});
+
+	it('keeps the expiry time of values restored from asynchronous storage, until they expire', async () => {
+
+		vi.useFakeTimers({ now: 1000, toFake: ['Date'] });
+
+		const storage = new MemoryAsyncStorage();
+
+		await storage.set('token', { $state: { expiresAt: 2000 }, value: 'abc' });
+
+		const Subject = compileClass<new () => { token?: string }>(`
+			class Subject {
+				@stateExperimental({ storage, key: 'token', ttl: 86400000 })
+				token;
+			}
+		`, { stateExperimental, storage }, true);
+
+		const subject = new Subject();
+
+		expect(subject.token).toBeUndefined();
+
+		await StateManager.allSettled;
+		await StateManager.flush();
+
+		expect(subject.token).toBe('abc');
+		await expect(storage.get('token')).resolves.toEqual({ $state: { expiresAt: 2000 }, value: 'abc' });
+
+		vi.setSystemTime(2000);
+
+		const expired = new Subject();
+
+		expect(expired.token).toBeUndefined();
+
+		await StateManager.allSettled;
+		await StateManager.flush();
+
+		expect(expired.token).toBeUndefined();
+		await expect(storage.get('token')).resolves.toBeUndefined();
+	});
+});
\ No newline at end of file
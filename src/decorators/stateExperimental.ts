@@ -15,8 +15,8 @@
  * support the 3 most common versions of the spec currently in use as above.
  * 
  * Recently, typescript 5.0 was released with support for the Stage 3 decorators proposal, this will
- * likely become the standard going forward, at which point we will release a new version of this
- * decorator without the 'experimental' flag.
+ * likely become the standard going forward. Projects making use of the Stage 3 decorators should use
+ * the `state` decorator instead, found in './state.ts'.
  * 
  * More info here:
  *   - TC39 Status = https://github.com/tc39/proposal-decorators
@@ -30,71 +30,41 @@ import { ObservableProperty } from '../ObservableProperty.js';
 import { StateManager } from '../StateManager.js';
 import { AsyncStorage } from '../types/AsyncStorage.js';
 import { SyncStorage } from '../types/SyncStorage.js';
+import { StateKey, StateOptions } from '../types.js';
+import { decodeState } from '../utilities/decodeState.js';
 import { isDefined } from '../utilities/isDefined.js';
-import { isFunction } from '../utilities/isFunction.js';
 import { isPromise } from '../utilities/isPromise.js';
-import { storeValue } from '../utilities/storeValue.js';
+import { observeStorageKeyWeakly } from '../utilities/observeStorageKeyWeakly.js';
+import { patchObservablePropertySet } from '../utilities/patchObservablePropertySet.js';
+import { persistState } from '../utilities/persistState.js';
+import { resolveKey } from '../utilities/resolveKey.js';
+import { restoreState } from '../utilities/restoreState.js';
+import { whenResolved } from '../utilities/whenResolved.js';
 
-// -----------------------------
-// OBSERVABLE PROPERTY DECORATOR
-// -----------------------------
-
-type GetterDescriptor = () => void;
-type SetterDescriptor = () => void;
+// -----
+// TYPES
+// -----
 
 /**
- * Patch the set function of an ObservableProperty to save the property value into storage when the set function is called.
- * 
- * @param storage - The storage mechanism to save the value in.
- * @param key - The key to save the value under.
- * @param observable - The observable property to patch.
- * 
- * @returns Nothing.
+ * The value of a decorated property, as tracked for a single class instance.
  */
-function patchObservablePropertySet<T>(storage: SyncStorage | AsyncStorage, key: string, observable: ObservableProperty<T>): void {
-
-	// Prevent the ObservableProperty.set function from being patched if it is already is.
+type DecoratedPropertyState<T> = {
 
-	if (Reflect.has(observable, '_state_set_patched')) {
-		return;
-	}
+	/**
+	 * The storage key the instance value is saved under.
+	 */
+	key: string;
 
-	// Get the property value get and set functions.
-	const observablePrototype: unknown = Object.getPrototypeOf(observable);
+	/**
+	 * The property value of the instance.
+	 */
+	value: T | undefined;
 
-	const propertyGetFunction: GetterDescriptor = Object.getOwnPropertyDescriptor(observablePrototype, 'get')?.value as GetterDescriptor;
-	const propertySetFunction: SetterDescriptor = Object.getOwnPropertyDescriptor(observablePrototype, 'set')?.value as SetterDescriptor;
-
-	// Override the ObservableProperty.set function to save the property value into storage when the set function is called.
-	// Note: *this* is only available in shorthand functions, thus disabling the eslint rule. See https://stackoverflow.com/a/53767500
-	Object.defineProperty(observable, 'set', { // eslint-disable-line object-shorthand
-		// kind: 'method',
-		// placement: 'own',
-		value(...args: unknown[]) {
-
-			// Call the original ObservableProperty.set function to set the value.
-			propertySetFunction.apply(this, args as []);
-
-			// Get the new property value in serializable form, i.e. not a function.
-			let newValue: unknown = args[0];
-
-			if (isFunction(newValue)) {
-				newValue = propertyGetFunction.apply(this);
-			}
-
-			// Save the new property value in storage.
-			storeValue(storage, key, newValue);
-		},
-		writable: true,
-		enumerable: false,
-		configurable: true
-	});
-
-	// Keep track that the ObservableProperty.set function has been patched.
-	Object.defineProperty(observable, '_state_set_patched', {
-		value: true
-	});
-}
+	/**
+	 * The value read from storage, to restore into an ObservableProperty assigned by the class initializer.
+	 */
+	restoredValue: T | undefined;
+};
 
 // ------------------------
 // DECORATOR IMPLEMENTATION
@@ -115,123 +85,227 @@ function patchObservablePropertySet<T>(storage: SyncStorage | AsyncStorage, key:
  * 
  * @param args - The decorator arguments.
  * - storage: The storage mechanism to write property value changes to.
- * - key: The storage key to write property values under.
+ * - key: The storage key to write property values under, or a function returning the storage key for a given class instance.
+ * - sync: Whether to update the property value when it is changed in storage from outside of the app, e.g. by another browser tab, defaults to true.
+ * - serializer: The serializer to convert the value to and from a string with before saving it in storage, if any.
+ * - version: The version of the value shape, recorded with the value in storage, if any.
+ * - migrations: The functions to migrate a value restored from storage step by step to the current version, keyed by the version they migrate from.
+ * - onMigrationFailure: The function to call when a value restored from storage can not be migrated, returning a replacement value or undefined to discard it.
+ * - ttl: The time in milliseconds a value remains valid in storage after it is set, if any. Expired values are treated as missing and removed when restored.
+ * - expiresAt: The time a value expires at in storage, as a Date or milliseconds since the epoch, if any. Takes precedence over `ttl`.
+ * - validate: The type guard function or Standard Schema compatible validator to check values restored from storage with, discarding invalid values.
+ * - onValidationFailure: The function to call when a value restored from storage is rejected by the validator, defaults to logging the problems to the console.
+ * - persist: How often to write the value to storage, i.e. `debounce` and / or `throttle` times in milliseconds, writing every value immediately if not set.
+ * 
+ * Each class instance holds its own property value, which is lazily initialized from storage on first access of the property. A key
+ * function is also called on first access, thus any instance values it depends on must already be set at that point.
  * 
  * ```js
  * import { ObservableProperty } from '@capitec/omni-state';
  * 
  * class AppState {
  * 
- *   @state({ storage: SessionStorage, key: 'my-property' })
+ *   @stateExperimental({ storage: SessionStorage, key: 'my-property' })
  *   myProperty = 'Hello World';
  * 
- *   @state({ storage: LocalStorage, key: 'settings' })
+ *   @stateExperimental({ storage: LocalStorage, key: 'settings' })
  *   appSettings = new ObservableProperty();
  * }
+ * 
+ * class AccountCard {
+ * 
+ *   constructor(readonly accountId: string) { }
+ * 
+ *   @stateExperimental({ storage: LocalStorage, key: (card: AccountCard) => `account-card-${card.accountId}` })
+ *   expanded = new ObservableProperty<boolean>();
+ * }
  * ```
  * 
  * @returns The decorator property descriptor (Babel Standard) or nothing (TypeScript and Babel Legacy).
  */
-export function stateExperimental({ storage, key }: {
+export function stateExperimental({ storage, key, sync = true, ...options }: {
 	storage: SyncStorage | AsyncStorage,
-	key: string
-}): (target: any, propertyKey: string) => void {
+	key: StateKey<any>, // eslint-disable-line @typescript-eslint/no-explicit-any
+	sync?: boolean
+} & StateOptions<unknown>): (target: any, propertyKey: string) => void {
 
 	return function <T>(target: any, propertyKey: PropertyKey): void {
 
 		// Initialize the default property value.
 		// eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-		let propertyValue = target.value as T | undefined;
+		const defaultValue = target.value as T | undefined;
+
+		// Keep track of the property state of each class instance, allowing multiple instances of the same class to each hold their own value.
+		const instances = new WeakMap<object, DecoratedPropertyState<T>>();
+
+		/**
+		 * Updates the property of a class instance with a value changed in storage from outside of the app.
+		 *
+		 * @param instance - The class instance the property belongs to.
+		 * @param storageValue - The new value in storage.
+		 *
+		 * @returns Nothing.
+		 */
+		const onStorageChange = function (instance: object, storageValue: unknown): void {
+
+			const propertyState = instances.get(instance);
+
+			if (!propertyState) {
+				return;
+			}
+
+			whenResolved(decodeState(storageValue, options), ({ value }) => {
 
-		// Patch the property to sync from and to storage when it's value changes.
-		const storageValue = storage.get<T>(key);
+				if (propertyState.value instanceof ObservableProperty) {
+
+					// Update the ObservableProperty value, bypassing the patched set function to prevent saving the value back into storage.
+					ObservableProperty.prototype.set.call(propertyState.value, value, 'remote');
+
+				} else {
+
+					propertyState.value = value as T;
+				}
+			});
+		};
 
-		if (isPromise(storageValue)) {
+		/**
+		 * Gets the property state for a class instance, initializing it from storage on first access.
+		 *
+		 * @param instance - The class instance to get the property state for.
+		 *
+		 * @returns The property state of the instance.
+		 */
+		const getState = function (instance: object): DecoratedPropertyState<T> {
 
-			// When the storage system is async, complete the patching operation as an async task.
-			StateManager.enqueue(key, Promise.resolve(storageValue).then((value) => {
+			const existingState = instances.get(instance);
+
+			if (existingState) {
+				return existingState;
+			}
+
+			// Resolve the storage key for the instance.
+			const storageKey = resolveKey(key, instance);
+
+			if (!storageKey) {
+				throw new Error(`stateExperimental - "${String(propertyKey)}" requires a "key" to be specified, e.g. "my-property-name".`);
+			}
+
+			const propertyState: DecoratedPropertyState<T> = { key: storageKey, value: defaultValue, restoredValue: undefined };
+
+			instances.set(instance, propertyState);
+
+			// Keep the property value in sync with changes made to storage from outside of the app, e.g. by another browser tab, if enabled,
+			// and re-hydrate it when the storage switches context, for as long as the class instance is in use.
+			observeStorageKeyWeakly(storage, storageKey, instance, onStorageChange, sync);
+
+			/**
+			 * Completes restoring the property value once it is read from async storage, or validated by an asynchronous schema, and then
+			 * patches the property to save value changes into storage.
+			 * 
+			 * @param storedValue - The value read from storage.
+			 * @param restoring - The property value restored from storage, or the promise that resolves to it.
+			 * 
+			 * @returns The initialized property value.
+			 */
+			const completeRestore = async function (storedValue: unknown, restoring: T | undefined | Promise<T | undefined>): Promise<unknown> {
+
+				const value = await restoring;
 
 				// Restore the property value from storage, if no initializer was provided and a value is available in storage.
-				if (!isDefined(propertyValue) || (propertyValue instanceof ObservableProperty && !propertyValue.exists())) { // eslint-disable-line no-extra-parens
+				if (!isDefined(propertyState.value) || (propertyState.value instanceof ObservableProperty && !propertyState.value.exists())) { // eslint-disable-line no-extra-parens
 
-					if (isDefined(storageValue)) {
+					if (isDefined(value)) {
 
 						// Set the storage value as the initial property value.
-						if (propertyValue instanceof ObservableProperty) {
-							propertyValue.set(value);
+						if (propertyState.value instanceof ObservableProperty) {
+							propertyState.value.set(value, 'storage-restore');
 						} else {
-							propertyValue = value;
+							propertyState.value = value;
 						}
 					}
 				}
 
 				// Patch the property to save value changes into storage.
-				if (propertyValue instanceof ObservableProperty) {
+				if (propertyState.value instanceof ObservableProperty) {
 
 					// If the property is a ObservableProperty type, then patch the ObservableProperty.set function to store the property value when the set function is called.
-					patchObservablePropertySet(storage, key, propertyValue);
+					patchObservablePropertySet(storage, storageKey, propertyState.value, options);
 
-				} else {
+				} else if (!isDefined(storedValue)) {
 
-					// If the property is any other type, then just set the property value in storage directly.
-					storeValue(storage, key, propertyValue);
+					// If the property is any other type, then just set the property value in storage directly, unless the value was read
+					// from storage, as saving it again would extend its expiry time.
+					persistState(storage, storageKey, () => propertyState.value, options);
 				}
 
-				// Clean up, by removing the async operation from the read queue.
-				StateManager.dequeue(key);
-
 				// Return the initialized property value.
-				return propertyValue;
-			}));
+				return propertyState.value;
+			};
+
+			// Patch the property to sync from and to storage when it's value changes.
+			const storageValue = storage.get<unknown>(storageKey);
+
+			if (isPromise(storageValue)) {
 
-		} else {
+				// When the storage system is async, complete the patching operation as an async task.
+				StateManager.enqueue(storageKey, Promise.resolve(storageValue).then((storedValue) => completeRestore(storedValue, restoreState(storage, storageKey, storedValue, options) as T | undefined | Promise<T | undefined>)));
 
-			// Set the storage value as the initial property value.
-			if (propertyValue instanceof ObservableProperty) {
-				propertyValue.set(storageValue);
 			} else {
-				propertyValue = storageValue as T | undefined;
-			}
 
-			// Patch the property to save value changes into storage.
-			if (propertyValue instanceof ObservableProperty) {
+				const value = restoreState(storage, storageKey, storageValue, options) as T | undefined | Promise<T | undefined>;
 
-				// If the property is an ObservableProperty type, then patch the ObservableProperty.set function to store the property value when the set function is called.
-				patchObservablePropertySet(storage, key, propertyValue);
+				if (isPromise(value)) {
 
-			} else {
+					// When the value is validated by an asynchronous schema, complete the patching operation as an async task.
+					StateManager.enqueue(storageKey, completeRestore(storageValue, value));
 
-				// If the property is any other type, then just set the property value in storage directly.
-				storeValue(storage, key, propertyValue);
+				} else if (isDefined(value)) {
+
+					// Set the storage value as the initial property value, keeping it to restore into an ObservableProperty assigned by the class initializer.
+					propertyState.value = value as T;
+					propertyState.restoredValue = value as T;
+				}
 			}
-		}
+
+			return propertyState;
+		};
 
 		// Create the new implementation that we'll patch over the default property behavior.
-		const get = function (): unknown {
-			return propertyValue;
+		const get = function (this: object): unknown {
+			return getState(this).value;
 		};
 
-		const set = function (value: T | undefined): void {
+		const set = function (this: object, value: T | undefined): void {
+
+			const propertyState = getState(this);
 
 			// Save the new property value.
-			propertyValue = value;
+			propertyState.value = value;
 
 			// Patch the property to save value changes into storage.
-			if (!isDefined(propertyValue)) {
+			if (!isDefined(propertyState.value)) {
 
 				// Clear the value in storage if the property value is not set.
-				storeValue(storage, key, null);
+				persistState(storage, propertyState.key, () => null, options);
 
-			} else if (propertyValue instanceof ObservableProperty) {
+			} else if (propertyState.value instanceof ObservableProperty) {
+
+				// Restore the value read from storage into the ObservableProperty, if it was not initialized with a value.
+				if (isDefined(propertyState.restoredValue) && !propertyState.value.exists()) {
+					propertyState.value.set(propertyState.restoredValue, 'storage-restore');
+				}
 
 				// If the property is an ObservableProperty type, then patch the ObservableProperty.set function to store the property value when the set function is called.
-				patchObservablePropertySet(storage, key, propertyValue);
+				patchObservablePropertySet(storage, propertyState.key, propertyState.value, options);
 
 			} else {
 
 				// If the property is any other type, then just set the property value in storage directly.
-				storeValue(storage, key, propertyValue);
+				persistState(storage, propertyState.key, () => propertyState.value, options);
 			}
+
+			// The restored value only applies to the first value assigned to the property.
+			propertyState.restoredValue = undefined;
 		};
 
 		// Patch the the existing property descriptor if it exists, or create a new property descriptor if it is not yet defined.
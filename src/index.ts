@@ -1,23 +1,47 @@
 // Decorators
+export { state } from './decorators/state.js';
 export { stateExperimental } from './decorators/stateExperimental.js';
 
+// Serializers
+export { TaggedJsonSerializer } from './serializers/TaggedJsonSerializer.js';
+
 // Stores
-export { LocalStorage } from './stores/LocalStorage.js';
-export { SessionStorage } from './stores/SessionStorage.js';
+export { EncryptedStorage } from './stores/EncryptedStorage.js';
+export { IndexedDBStorage } from './stores/IndexedDBStorage.js';
+export { LocalStorage, LocalStorageImpl } from './stores/LocalStorage.js';
+export { MemoryAsyncStorage } from './stores/MemoryAsyncStorage.js';
+export { MemoryStorage } from './stores/MemoryStorage.js';
+export { NamespacedStorage } from './stores/NamespacedStorage.js';
+export { QuotaStorage } from './stores/QuotaStorage.js';
+export { SessionStorage, SessionStorageImpl } from './stores/SessionStorage.js';
 
 // Types
+export type { StateDecorator } from './decorators/state.js';
+export type { ImmutableMode, PropertyChange, PropertyChangeHandler, PropertyChangeSource, PropertySelectHandler, PropertySelectOptions, PropertySetHandler, PropertySubscribeOptions, StateEnvelope, StateKey, StateLoadResult, StateMigrations, StateOptions, StatePersistOptions, StateValidator, StorageChange, StorageChangeHandler, StorageEvictionPolicy, StorageUsage, StorageWriteError, StorageWriteErrorHandler, StorageWriteRetry } from './types.js';
+export type { PropertyValues } from './ComputedProperty.js';
 export type { AsyncStorage } from './types/AsyncStorage.js';
+export type { InteropObservable, InteropObserver } from './types/InteropObservable.js';
+export type { ObservableStorage } from './types/ObservableStorage.js';
+export type { ReadableProperty } from './types/ReadableProperty.js';
+export type { Serializer } from './types/Serializer.js';
+export type { StandardSchema, StandardSchemaIssue, StandardSchemaResult } from './types/StandardSchema.js';
+export type { Subscription } from './types/Subscription.js';
 export type { SyncStorage } from './types/SyncStorage.js';
 
 // Utilities
 export { deepCopy } from './utilities/deepCopy.js';
+export { deepEqual } from './utilities/deepEqual.js';
 export { deepFreeze } from './utilities/deepFreeze.js';
 export { isDefined } from './utilities/isDefined.js';
 export { isFunction } from './utilities/isFunction.js';
+export { isObservableStorage } from './utilities/isObservableStorage.js';
 export { isPromise } from './utilities/isPromise.js';
+export { shallowEqual } from './utilities/shallowEqual.js';
 export { storeValue } from './utilities/storeValue.js';
 
 // Module
+export { ComputedProperty, computed } from './ComputedProperty.js';
 export { ObservableProperty } from './ObservableProperty.js';
+export { PropertyHistory, withHistory } from './PropertyHistory.js';
 export { StatefulProperty } from './StatefulProperty.js';
 export { StateManager } from './StateManager.js';
\ No newline at end of file
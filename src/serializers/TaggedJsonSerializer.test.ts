@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { TaggedJsonSerializer } from './TaggedJsonSerializer.js';
+
+/**
+ * Serializes and deserializes a value.
+ */
+const roundTrip = <T>(value: T): T => TaggedJsonSerializer.deserialize<T>(TaggedJsonSerializer.serialize(value));
+
+describe('TaggedJsonSerializer', () => {
+
+	it('serializes plain values as plain JSON', () => {
+
+		const value = { name: 'Hello', tags: ['a', 'b'], count: 1, active: true, parent: null };
+
+		expect(TaggedJsonSerializer.serialize(value)).toBe(JSON.stringify(value));
+		expect(TaggedJsonSerializer.deserialize(JSON.stringify(value))).toEqual(value);
+	});
+
+	it('round trips dates', () => {
+
+		const value = roundTrip({ createdAt: new Date('2023-01-02T03:04:05.006Z') });
+
+		expect(value.createdAt).toBeInstanceOf(Date);
+		expect(value.createdAt.toISOString()).toBe('2023-01-02T03:04:05.006Z');
+		expect(roundTrip(new Date(NaN)).getTime()).toBeNaN();
+	});
+
+	it('round trips maps and sets, including nested values', () => {
+
+		const value = roundTrip({
+			accounts: new Map<string, unknown>([['savings', { openedAt: new Date(0) }]]),
+			tags: new Set(['a', 'b'])
+		});
+
+		expect(value.accounts).toEqual(new Map([['savings', { openedAt: new Date(0) }]]));
+		expect(value.tags).toEqual(new Set(['a', 'b']));
+	});
+
+	it('round trips bigints, regular expressions and non-finite numbers', () => {
+
+		const value = roundTrip({ balance: 12345678901234567890n, pattern: /^\d+$/gi, ratio: NaN, limit: Infinity, floor: -Infinity });
+
+		expect(value.balance).toBe(12345678901234567890n);
+		expect(value.pattern).toEqual(/^\d+$/gi);
+		expect(value.ratio).toBeNaN();
+		expect(value.limit).toBe(Infinity);
+		expect(value.floor).toBe(-Infinity);
+	});
+
+	it('round trips undefined values and fields', () => {
+
+		const value = roundTrip({ name: undefined, items: [1, undefined, 3] });
+
+		expect(Object.keys(value)).toEqual(['name', 'items']);
+		expect(value.name).toBeUndefined();
+		expect(value.items).toEqual([1, undefined, 3]);
+		expect(roundTrip(undefined)).toBeUndefined();
+	});
+
+	it('escapes objects containing the type tag', () => {
+
+		const value = { $type: 'Date', value: 0 };
+
+		expect(roundTrip(value)).toEqual(value);
+	});
+
+	it('does not change the prototype of objects with a "__proto__" field', () => {
+
+		const value = roundTrip<Record<string, unknown>>(JSON.parse('{"__proto__":{"polluted":true}}') as Record<string, unknown>);
+
+		expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+		expect(value.polluted).toBeUndefined();
+	});
+});
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { Serializer } from '../types/Serializer.js';
+
+/**
+ * The property name used to tag values that can not be represented in plain JSON.
+ */
+const TYPE_TAG = '$type';
+
+/**
+ * A value that can not be represented in plain JSON, tagged with its type.
+ */
+type TaggedValue = {
+	[TYPE_TAG]: string;
+	value?: unknown;
+};
+
+/**
+ * Sets a field on an object, defining it as an own property to prevent keys like "__proto__" from changing the object prototype.
+ * 
+ * @param object - The object to set the field on.
+ * @param key - The field name.
+ * @param value - The field value.
+ * 
+ * @returns Nothing.
+ */
+function setField(object: Record<string, unknown>, key: string, value: unknown): void {
+
+	Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+/**
+ * Serializer that converts values to and from JSON strings, preserving values that can not be represented in plain JSON.
+ * 
+ * The following values are tagged with their type when serialized, and restored as is when deserialized:
+ *   1) Date
+ *   2) Map
+ *   3) Set
+ *   4) BigInt
+ *   5) RegExp
+ *   6) undefined, including undefined object fields and array items
+ *   7) NaN, Infinity and -Infinity
+ * 
+ * Values without any of the above types are serialized as plain JSON, thus values stored with `JSON.stringify` can be read back as is.
+ */
+class TaggedJsonSerializerImpl implements Serializer {
+
+	/**
+	 * Converts a value into its tagged JSON string representation.
+	 * 
+	 * @param value - The value to convert.
+	 * 
+	 * @returns The JSON string representation of the value.
+	 */
+	serialize(value: unknown): string {
+
+		return JSON.stringify(this._encode(value));
+	}
+
+	/**
+	 * Converts a tagged JSON string representation back into its value.
+	 * 
+	 * @param text - The JSON string representation to convert.
+	 * 
+	 * @returns The value.
+	 */
+	deserialize<T>(text: string): T {
+
+		return this._decode(JSON.parse(text)) as T;
+	}
+
+	// -----------------
+	// PRIVATE FUNCTIONS
+	// -----------------
+
+	/**
+	 * Converts a value into a plain JSON compatible value, tagging any values that can not be represented in plain JSON.
+	 * 
+	 * @param value - The value to convert.
+	 * 
+	 * @returns The JSON compatible value, or undefined if the value can not be serialized, e.g. a function.
+	 */
+	private _encode(value: unknown): unknown {
+
+		if (value === undefined) {
+			return { [TYPE_TAG]: 'undefined' };
+		}
+
+		if (typeof value === 'bigint') {
+			return { [TYPE_TAG]: 'BigInt', value: value.toString() };
+		}
+
+		if (typeof value === 'number' && !Number.isFinite(value)) {
+			return { [TYPE_TAG]: 'Number', value: String(value) };
+		}
+
+		if (typeof value === 'function' || typeof value === 'symbol') {
+			return undefined;
+		}
+
+		if (typeof value !== 'object' || value === null) {
+			return value;
+		}
+
+		if (value instanceof Date) {
+			return { [TYPE_TAG]: 'Date', value: value.getTime() };
+		}
+
+		if (value instanceof Map) {
+			return { [TYPE_TAG]: 'Map', value: Array.from(value.entries()).map(([key, item]) => [this._encode(key), this._encode(item)]) };
+		}
+
+		if (value instanceof Set) {
+			return { [TYPE_TAG]: 'Set', value: Array.from(value.values()).map(item => this._encode(item)) };
+		}
+
+		if (value instanceof RegExp) {
+			return { [TYPE_TAG]: 'RegExp', value: { source: value.source, flags: value.flags } };
+		}
+
+		if (Array.isArray(value)) {
+			return value.map(item => this._encode(item) ?? null);
+		}
+
+		// Honor custom JSON representations, e.g. of class instances.
+		const toJSON = (value as { toJSON?: () => unknown }).toJSON;
+
+		if (typeof toJSON === 'function') {
+			return this._encode(toJSON.call(value));
+		}
+
+		const result: Record<string, unknown> = {};
+
+		for (const [key, item] of Object.entries(value)) {
+
+			const encodedItem = this._encode(item);
+
+			if (encodedItem !== undefined) {
+				setField(result, key, encodedItem);
+			}
+		}
+
+		// Escape plain objects that contain the type tag, to prevent them from being read back as a tagged value.
+		if (Object.prototype.hasOwnProperty.call(value, TYPE_TAG)) {
+			return { [TYPE_TAG]: 'Object', value: result };
+		}
+
+		return result;
+	}
+
+	/**
+	 * Converts a plain JSON compatible value back into its value, restoring any tagged values.
+	 * 
+	 * @param value - The JSON compatible value to convert.
+	 * 
+	 * @returns The value.
+	 */
+	private _decode(value: unknown): unknown {
+
+		if (typeof value !== 'object' || value === null) {
+			return value;
+		}
+
+		if (Array.isArray(value)) {
+			return value.map(item => this._decode(item));
+		}
+
+		if (typeof (value as TaggedValue)[TYPE_TAG] === 'string') {
+
+			const tagged = value as TaggedValue;
+
+			switch (tagged[TYPE_TAG]) {
+
+				case 'undefined':
+					return undefined;
+
+				case 'BigInt':
+					return BigInt(tagged.value as string);
+
+				case 'Number':
+					return Number(tagged.value);
+
+				case 'Date':
+					return new Date(tagged.value as number ?? NaN);
+
+				case 'Map':
+					return new Map((tagged.value as [unknown, unknown][]).map(([key, item]) => [this._decode(key), this._decode(item)]));
+
+				case 'Set':
+					return new Set((tagged.value as unknown[]).map(item => this._decode(item)));
+
+				case 'RegExp': {
+					const { source, flags } = tagged.value as { source: string, flags: string };
+					return new RegExp(source, flags);
+				}
+
+				case 'Object':
+					return this._decodeObject(tagged.value as Record<string, unknown>);
+			}
+		}
+
+		return this._decodeObject(value as Record<string, unknown>);
+	}
+
+	/**
+	 * Converts the fields of a plain JSON compatible object back into their values.
+	 * 
+	 * @param value - The JSON compatible object to convert.
+	 * 
+	 * @returns The object with its field values restored.
+	 */
+	private _decodeObject(value: Record<string, unknown>): Record<string, unknown> {
+
+		const result: Record<string, unknown> = {};
+
+		for (const [key, item] of Object.entries(value)) {
+			setField(result, key, this._decode(item));
+		}
+
+		return result;
+	}
+}
+
+export const TaggedJsonSerializer = new TaggedJsonSerializerImpl();
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { StatefulProperty } from '../StatefulProperty.js';
+import { StateManager } from '../StateManager.js';
+import { EncryptedStorage } from './EncryptedStorage.js';
+import { MemoryStorage } from './MemoryStorage.js';
+
+/**
+ * Generates a new AES-GCM key to encrypt values with.
+ */
+const generateKey = (): Promise<CryptoKey> => globalThis.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+describe.runIf(typeof globalThis.crypto?.subtle !== 'undefined')('EncryptedStorage', () => {
+
+	let cryptoKey: CryptoKey;
+	let innerStorage: MemoryStorage;
+
+	beforeEach(async () => {
+
+		cryptoKey = await generateKey();
+		innerStorage = new MemoryStorage();
+	});
+
+	it('encrypts values before saving them into the wrapped storage', async () => {
+
+		const storage = new EncryptedStorage({ storage: innerStorage, cryptoKey });
+
+		await storage.set('account', { number: '1234567890', openedAt: new Date(0) });
+
+		const storedValue = innerStorage.get<string>('account');
+
+		expect(typeof storedValue).toBe('string');
+		expect(storedValue).not.toContain('1234567890');
+		await expect(storage.get('account')).resolves.toEqual({ number: '1234567890', openedAt: new Date(0) });
+	});
+
+	it('derives the key once when a key function is provided', async () => {
+
+		const deriveKey = vi.fn(() => Promise.resolve(cryptoKey));
+		const storage = new EncryptedStorage({ storage: innerStorage, cryptoKey: deriveKey });
+
+		await storage.set('a', 1);
+		await storage.set('b', 2);
+
+		await expect(storage.get('a')).resolves.toBe(1);
+		expect(deriveKey).toHaveBeenCalledTimes(1);
+	});
+
+	it('reports and returns undefined for tampered values', async () => {
+
+		const onError = vi.fn();
+		const storage = new EncryptedStorage({ storage: innerStorage, cryptoKey, onError });
+
+		await storage.set('account', 'secret');
+
+		const storedValue = innerStorage.get<string>('account') as string;
+
+		innerStorage.set('account', storedValue.slice(0, -4) + (storedValue.endsWith('AAAA') ? 'BBBB' : 'AAAA'));
+
+		await expect(storage.get('account')).resolves.toBeUndefined();
+		expect(onError).toHaveBeenCalledWith(expect.anything(), 'account');
+	});
+
+	it('reports and returns undefined for values moved to another key', async () => {
+
+		const onError = vi.fn();
+		const storage = new EncryptedStorage({ storage: innerStorage, cryptoKey, onError });
+
+		await storage.set('account', 'secret');
+
+		innerStorage.set('other', innerStorage.get('account'));
+
+		await expect(storage.get('other')).resolves.toBeUndefined();
+		expect(onError).toHaveBeenCalledTimes(1);
+	});
+
+	it('reports and returns undefined for values encrypted with another key', async () => {
+
+		const onError = vi.fn();
+
+		await new EncryptedStorage({ storage: innerStorage, cryptoKey: await generateKey() }).set('account', 'secret');
+
+		const storage = new EncryptedStorage({ storage: innerStorage, cryptoKey, onError });
+
+		await expect(storage.get('account')).resolves.toBeUndefined();
+		expect(onError).toHaveBeenCalledTimes(1);
+	});
+
+	it('fails writes that can not be encrypted, rather than losing the value', async () => {
+
+		const onError = vi.fn();
+		const storage = new EncryptedStorage({ storage: innerStorage, cryptoKey: (): Promise<CryptoKey> => Promise.reject(new Error('No session')), onError });
+
+		await expect(storage.set('account', 'secret')).rejects.toThrow('No session');
+		expect(innerStorage.get('account')).toBeUndefined();
+		expect(onError).not.toHaveBeenCalled();
+	});
+
+	it('delegates removing and listing keys to the wrapped storage', async () => {
+
+		const storage = new EncryptedStorage({ storage: innerStorage, cryptoKey });
+
+		await storage.set('a', 1);
+		await storage.set('b', 2);
+		await storage.remove('a');
+
+		await expect(storage.keys()).resolves.toEqual(['b']);
+		await expect(storage.key(0)).resolves.toBe('b');
+		await expect(storage.size()).resolves.toBe(1);
+
+		await storage.clear();
+
+		expect(innerStorage.size()).toBe(0);
+	});
+
+	it('persists and restores a StatefulProperty', async () => {
+
+		const storage = new EncryptedStorage({ storage: innerStorage, cryptoKey });
+
+		new StatefulProperty<{ balance: number }>({ storage, key: 'encrypted-balance' }).set({ balance: 100 });
+
+		await vi.waitFor(() => expect(innerStorage.get('encrypted-balance')).toBeDefined());
+
+		const restored = new StatefulProperty<{ balance: number }>({ storage, key: 'encrypted-balance' });
+
+		await StateManager.allSettled;
+
+		expect(restored.get()).toEqual({ balance: 100 });
+	});
+});
\ No newline at end of file
@@ -0,0 +1,279 @@
+import { TaggedJsonSerializer } from '../serializers/TaggedJsonSerializer.js';
+import { AsyncStorage } from '../types/AsyncStorage.js';
+import { Serializer } from '../types/Serializer.js';
+import { SyncStorage } from '../types/SyncStorage.js';
+
+/**
+ * The byte length of the random initialization vector generated for each encrypted value, as recommended for AES-GCM.
+ */
+const IV_LENGTH = 12;
+
+/**
+ * Encodes bytes as a base64 string.
+ * 
+ * @param bytes - The bytes to encode.
+ * 
+ * @returns The base64 string.
+ */
+function toBase64(bytes: Uint8Array): string {
+
+	let binary = '';
+
+	for (let i = 0; i < bytes.length; i++) {
+		binary += String.fromCharCode(bytes[i]);
+	}
+
+	return btoa(binary);
+}
+
+/**
+ * Decodes a base64 string into bytes.
+ * 
+ * @param text - The base64 string to decode.
+ * 
+ * @returns The decoded bytes.
+ */
+function fromBase64(text: string): Uint8Array {
+
+	const binary = atob(text);
+	const bytes = new Uint8Array(binary.length);
+
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+
+	return bytes;
+}
+
+/**
+ * Storage wrapper that encrypts values with AES-GCM before saving them into another storage mechanism, and decrypts them when read.
+ * 
+ * Values are serialized to a string, encrypted with a random initialization vector, and saved as a base64 string. The storage key is
+ * bound to the encrypted value, thus values that are tampered with, or moved to another key, fail to decrypt and are read as undefined.
+ * 
+ * ```js
+ * import { EncryptedStorage, LocalStorage, StatefulProperty } from '@capitec/omni-state';
+ * 
+ * const SecureStorage = new EncryptedStorage({ storage: LocalStorage, cryptoKey: () => deriveKeyFromSession() });
+ * 
+ * const profile = new StatefulProperty({ storage: SecureStorage, key: 'profile' });
+ * ```
+ */
+export class EncryptedStorage implements AsyncStorage {
+
+	// ----------
+	// PROPERTIES
+	// ----------
+
+	/**
+	 * The storage mechanism to save the encrypted values in.
+	 */
+	private _storage: SyncStorage | AsyncStorage;
+
+	/**
+	 * The AES-GCM key, or the function that provides it, to encrypt and decrypt values with.
+	 */
+	private _cryptoKey: CryptoKey | (() => Promise<CryptoKey>);
+
+	/**
+	 * The resolved AES-GCM key, if already resolved.
+	 */
+	private _resolvedKey?: Promise<CryptoKey>;
+
+	/**
+	 * The serializer to convert values to and from strings with before they are encrypted.
+	 */
+	private _serializer: Serializer;
+
+	/**
+	 * The function to call when a value can not be decrypted.
+	 */
+	private _onError: (error: unknown, key: string) => void;
+
+	// ------------
+	// CONSTRUCTORS
+	// ------------
+
+	/**
+	 * Initializes the storage.
+	 * 
+	 * @param args - The storage arguments.
+	 * - storage: The storage mechanism to save the encrypted values in.
+	 * - cryptoKey: The AES-GCM key to encrypt and decrypt values with, or a function that derives the key, called once on first use.
+	 * - serializer: The serializer to convert values to and from strings with before they are encrypted, defaults to `TaggedJsonSerializer`.
+	 * - onError: The function to call when a value can not be decrypted, defaults to logging the error to the console.
+	 */
+	constructor({ storage, cryptoKey, serializer = TaggedJsonSerializer, onError = (error): void => console.error(error) }: {
+		storage: SyncStorage | AsyncStorage,
+		cryptoKey: CryptoKey | (() => Promise<CryptoKey>),
+		serializer?: Serializer,
+		onError?: (error: unknown, key: string) => void
+	}) {
+
+		// Validate the storage parameters.
+		if (!storage) {
+			throw new Error(`EncryptedStorage - requires a "storage" mechanism to be specified, e.g. LocalStorage, SessionStorage, or a similar interface.`);
+		}
+
+		if (!cryptoKey) {
+			throw new Error(`EncryptedStorage - requires a "cryptoKey" to be specified, e.g. a CryptoKey generated with window.crypto.subtle.generateKey.`);
+		}
+
+		// Set default storage values.
+		this._storage = storage;
+		this._cryptoKey = cryptoKey;
+		this._serializer = serializer;
+		this._onError = onError;
+	}
+
+	// ----------------
+	// PUBLIC FUNCTIONS
+	// ----------------
+
+	/**
+	 * Gets a value from storage for the given key, decrypting it.
+	 * 
+	 * @param key - The key under which the value is stored.
+	 * 
+	 * @returns The decrypted value, or undefined if not set or if the value could not be decrypted.
+	 */
+	async get<T>(key: string): Promise<T | undefined> {
+
+		const storedValue = await this._storage.get<unknown>(key);
+
+		if (storedValue === undefined || storedValue === null) {
+			return undefined;
+		}
+
+		try {
+
+			if (typeof storedValue !== 'string') {
+				throw new Error(`EncryptedStorage - "${key}" does not contain an encrypted value.`);
+			}
+
+			const bytes = fromBase64(storedValue);
+
+			const plainText = await globalThis.crypto.subtle.decrypt(
+				{ name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH), additionalData: new TextEncoder().encode(key) },
+				await this._getKey(),
+				bytes.slice(IV_LENGTH)
+			);
+
+			return this._serializer.deserialize<T>(new TextDecoder().decode(plainText));
+
+		} catch (err) {
+
+			this._onError(err, key);
+
+			return undefined;
+		}
+	}
+
+	/**
+	 * Sets a value in storage for the given key, encrypting it. Fails if the value can not be encrypted or saved, e.g. when the key can
+	 * not be derived, so the write can be retried rather than losing the value.
+	 * 
+	 * @param key - The key under which to store the value.
+	 * @param value - The value to store.
+	 * 
+	 * @returns Nothing.
+	 */
+	async set(key: string, value: unknown): Promise<void> {
+
+		const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+		const cipherText = await globalThis.crypto.subtle.encrypt(
+			{ name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(key) },
+			await this._getKey(),
+			new TextEncoder().encode(this._serializer.serialize(value))
+		);
+
+		// Prefix the initialization vector to the encrypted value, as it is required to decrypt the value.
+		const bytes = new Uint8Array(IV_LENGTH + cipherText.byteLength);
+
+		bytes.set(iv);
+		bytes.set(new Uint8Array(cipherText), IV_LENGTH);
+
+		await this._storage.set(key, toBase64(bytes));
+	}
+
+	/**
+	 * Removes a value from storage for the given key.
+	 * 
+	 * @param key - The key of the value to remove.
+	 * 
+	 * @returns Nothing.
+	 */
+	async remove(key: string): Promise<void> {
+
+		await this._storage.remove(key);
+	}
+
+	/**
+	 * Removes all values from storage.
+	 * 
+	 * @returns Nothing.
+	 */
+	async clear(): Promise<void> {
+
+		await this._storage.clear();
+	}
+
+	/**
+	 * Get the name of the key at a given index.
+	 * 
+	 * @param index - The index number to get the key name for.
+	 * 
+	 * @returns The name of the key at the index.
+	 */
+	async key(index: number): Promise<string | undefined> {
+
+		return await this._storage.key(index);
+	}
+
+	/**
+	 * Finds a list of all keys in storage.
+	 * 
+	 * @returns The list of keys in storage.
+	 */
+	async keys(): Promise<string[]> {
+
+		return await this._storage.keys();
+	}
+
+	/**
+	 * Get the number of items in storage.
+	 * 
+	 * @returns The storage item count.
+	 */
+	async size(): Promise<number> {
+
+		return await this._storage.size();
+	}
+
+	// -----------------
+	// PRIVATE FUNCTIONS
+	// -----------------
+
+	/**
+	 * Gets the AES-GCM key to encrypt and decrypt values with, deriving it on first use if a key function was provided.
+	 * 
+	 * @returns The AES-GCM key.
+	 */
+	private _getKey(): Promise<CryptoKey> {
+
+		if (!this._resolvedKey) {
+
+			const cryptoKey = this._cryptoKey;
+
+			this._resolvedKey = typeof cryptoKey === 'function' ? cryptoKey() : Promise.resolve(cryptoKey);
+
+			// Allow the key to be derived again on the next storage operation if it could not be derived.
+			void this._resolvedKey.catch(() => {
+				this._resolvedKey = undefined;
+			});
+		}
+
+		return this._resolvedKey;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { IDBDatabase as FakeIDBDatabase, IDBFactory as FakeIDBFactory, IDBObjectStore as FakeIDBObjectStore } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { IndexedDBStorage } from './IndexedDBStorage.js';
+
+/**
+ * The internal function of the fake IndexedDB transactions that aborts the transaction with an error, as the browser does when a
+ * transaction fails to commit.
+ */
+type AbortableTransaction = IDBTransaction & { _abort(errorName: string): void };
+
+describe('IndexedDBStorage', () => {
+
+	let indexedDB: IDBFactory;
+
+	beforeEach(() => {
+
+		indexedDB = new FakeIDBFactory();
+
+		vi.stubGlobal('window', { indexedDB });
+	});
+
+	afterEach(() => {
+
+		vi.restoreAllMocks();
+		vi.unstubAllGlobals();
+	});
+
+	it('stores values as structured clone data', async () => {
+
+		const storage = new IndexedDBStorage();
+
+		await storage.set('person', { firstName: 'Hello', bornAt: new Date(0), tags: new Set(['a']) });
+
+		await expect(storage.get('person')).resolves.toEqual({ firstName: 'Hello', bornAt: new Date(0), tags: new Set(['a']) });
+		await expect(storage.get('missing')).resolves.toBeUndefined();
+	});
+
+	it('removes and clears values', async () => {
+
+		const storage = new IndexedDBStorage();
+
+		await storage.set('a', 1);
+		await storage.set('b', 2);
+		await storage.set('c', 3);
+
+		await storage.remove('a');
+
+		await expect(storage.keys()).resolves.toEqual(['b', 'c']);
+		await expect(storage.key(0)).resolves.toBe('b');
+		await expect(storage.size()).resolves.toBe(2);
+
+		await storage.clear();
+
+		await expect(storage.size()).resolves.toBe(0);
+	});
+
+	it('creates the object store in an existing database', async () => {
+
+		await new IndexedDBStorage({ database: 'my-app', store: 'settings' }).set('theme', 'dark');
+
+		const storage = new IndexedDBStorage({ database: 'my-app', store: 'cache' });
+
+		await storage.set('accounts', ['123']);
+
+		await expect(storage.get('accounts')).resolves.toEqual(['123']);
+		await expect(new IndexedDBStorage({ database: 'my-app', store: 'settings' }).get('theme')).resolves.toBe('dark');
+	});
+
+	it('completes writes once the transaction commits', async () => {
+
+		const storage = new IndexedDBStorage();
+		let committed = 0;
+		const transaction = FakeIDBDatabase.prototype.transaction; // eslint-disable-line @typescript-eslint/unbound-method
+
+		vi.spyOn(FakeIDBDatabase.prototype, 'transaction').mockImplementation(function (this: IDBDatabase, ...args: Parameters<IDBDatabase['transaction']>) {
+
+			const newTransaction = transaction.apply(this, args);
+
+			if (newTransaction.mode === 'readwrite') {
+				newTransaction.addEventListener('complete', () => committed++);
+			}
+
+			return newTransaction;
+		});
+
+		await storage.set('a', 1);
+
+		expect(committed).toBe(1);
+
+		await storage.remove('a');
+
+		expect(committed).toBe(2);
+
+		await storage.clear();
+
+		expect(committed).toBe(3);
+	});
+
+	it('rejects writes when the transaction aborts after the request succeeded, e.g. when the quota is exceeded', async () => {
+
+		const storage = new IndexedDBStorage();
+		const put = FakeIDBObjectStore.prototype.put; // eslint-disable-line @typescript-eslint/unbound-method
+
+		vi.spyOn(FakeIDBObjectStore.prototype, 'put').mockImplementation(function (this: IDBObjectStore, ...args: Parameters<IDBObjectStore['put']>) {
+
+			const request = put.apply(this, args);
+
+			request.addEventListener('success', () => (this.transaction as AbortableTransaction)._abort('QuotaExceededError'));
+
+			return request;
+		});
+
+		await expect(storage.set('a', 'x'.repeat(100))).rejects.toMatchObject({ name: 'QuotaExceededError' });
+		await expect(storage.get('a')).resolves.toBeUndefined();
+	});
+
+	it('rejects writes when the database is closed', async () => {
+
+		const storage = new IndexedDBStorage();
+
+		await storage.set('a', 1);
+
+		vi.spyOn(FakeIDBDatabase.prototype, 'transaction').mockImplementation(() => {
+			throw Object.assign(new Error('The database connection is closing.'), { name: 'InvalidStateError' });
+		});
+
+		await expect(storage.set('a', 2)).rejects.toMatchObject({ name: 'InvalidStateError' });
+		await expect(storage.remove('a')).rejects.toMatchObject({ name: 'InvalidStateError' });
+		await expect(storage.clear()).rejects.toMatchObject({ name: 'InvalidStateError' });
+	});
+});
\ No newline at end of file
@@ -0,0 +1,305 @@
+import { AsyncStorage } from '../types/AsyncStorage.js';
+
+/**
+ * Wraps an IndexedDB request in a promise that resolves with the request result.
+ * 
+ * @param request - The IndexedDB request to wait for.
+ * 
+ * @returns The request result.
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+
+	return new Promise((resolve, reject) => {
+
+		request.onsuccess = (): void => resolve(request.result);
+		request.onerror = (): void => reject(request.error);
+	});
+}
+
+/**
+ * Waits for an IndexedDB transaction to commit its changes.
+ * 
+ * Requests succeed before their transaction commits, and a transaction can still abort once all of its requests succeeded, e.g. when
+ * committing the changes exceeds the storage quota, thus writes are only complete once the transaction completes.
+ * 
+ * @param transaction - The IndexedDB transaction to wait for.
+ * 
+ * @returns Nothing.
+ */
+function complete(transaction: IDBTransaction): Promise<void> {
+
+	return new Promise((resolve, reject) => {
+
+		transaction.oncomplete = (): void => resolve();
+		transaction.onerror = (event): void => reject((event.target as IDBRequest | null)?.error ?? transaction.error);
+		transaction.onabort = (): void => reject(transaction.error ?? new DOMException('The transaction was aborted.', 'AbortError'));
+	});
+}
+
+/**
+ * Storage class that allows for persisting large data sets in the browser `indexedDB`, across browser sessions.
+ * 
+ * Values are persisted to storage as structured clone data, thus any value supported by the structured clone algorithm, e.g. Date,
+ * Map, Set, Blob, etc. is read back as is, without needing to be serialized to JSON.
+ */
+export class IndexedDBStorage implements AsyncStorage {
+
+	// ----------
+	// PROPERTIES
+	// ----------
+
+	/**
+	 * The name of the database to store values in.
+	 */
+	private _databaseName: string;
+
+	/**
+	 * The name of the object store within the database to store values in.
+	 */
+	private _storeName: string;
+
+	/**
+	 * The open database connection, if already opened.
+	 */
+	private _database?: Promise<IDBDatabase>;
+
+	// ------------
+	// CONSTRUCTORS
+	// ------------
+
+	/**
+	 * Initializes the storage.
+	 * 
+	 * @param args - The storage arguments.
+	 * - database: The name of the database to store values in, defaults to "omni-state".
+	 * - store: The name of the object store within the database to store values in, defaults to "state".
+	 */
+	constructor({ database = 'omni-state', store = 'state' }: { database?: string, store?: string } = {}) {
+
+		// Validate the storage parameters.
+		if (!database) {
+			throw new Error(`IndexedDBStorage - requires a "database" name to be specified, e.g. "my-app".`);
+		}
+
+		if (!store) {
+			throw new Error(`IndexedDBStorage - "${database}" requires a "store" name to be specified, e.g. "state".`);
+		}
+
+		// Set default storage values.
+		this._databaseName = database;
+		this._storeName = store;
+	}
+
+	// ----------------
+	// PUBLIC FUNCTIONS
+	// ----------------
+
+	/**
+	 * Gets a value from storage for the given key.
+	 * 
+	 * @param key - The key under which the value is stored.
+	 * 
+	 * @returns The stored value, or undefined if not set.
+	 */
+	async get<T>(key: string): Promise<T | undefined> {
+
+		try {
+
+			const store = await this._getStore('readonly');
+
+			return await promisify(store.get(key)) as T | undefined;
+
+		} catch (err) {
+
+			console.error(err);
+
+			return undefined;
+		}
+	}
+
+	/**
+	 * Sets a value in storage for the given key, failing if the value can not be saved, e.g. when the origin quota is exceeded or the
+	 * database is closed, so the write can be retried rather than losing the value.
+	 * 
+	 * @param key - The key under which to store the value.
+	 * @param value - The value to store.
+	 * 
+	 * @returns Nothing.
+	 */
+	async set(key: string, value: unknown): Promise<void> {
+
+		const store = await this._getStore('readwrite');
+
+		store.put(value, key);
+
+		await complete(store.transaction);
+	}
+
+	/**
+	 * Removes a value from storage for the given key.
+	 * 
+	 * @param key - The key of the value to remove.
+	 * 
+	 * @returns Nothing.
+	 */
+	async remove(key: string): Promise<void> {
+
+		const store = await this._getStore('readwrite');
+
+		store.delete(key);
+
+		await complete(store.transaction);
+	}
+
+	/**
+	 * Removes all values from storage.
+	 * 
+	 * @returns Nothing.
+	 */
+	async clear(): Promise<void> {
+
+		const store = await this._getStore('readwrite');
+
+		store.clear();
+
+		await complete(store.transaction);
+	}
+
+	/**
+	 * Get the name of the key at a given index.
+	 * 
+	 * @param index - The index number to get the key name for.
+	 * 
+	 * @returns The name of the key at the index.
+	 */
+	async key(index: number): Promise<string | undefined> {
+
+		const keys = await this.keys();
+
+		return keys[index];
+	}
+
+	/**
+	 * Finds a list of all keys in storage.
+	 * 
+	 * @returns The list of keys in storage.
+	 */
+	async keys(): Promise<string[]> {
+
+		try {
+
+			const store = await this._getStore('readonly');
+
+			const keys = await promisify(store.getAllKeys());
+
+			return keys.map(key => String(key));
+
+		} catch (err) {
+
+			console.error(err);
+
+			return [];
+		}
+	}
+
+	/**
+	 * Get the number of items in storage.
+	 * 
+	 * @returns The storage item count.
+	 */
+	async size(): Promise<number> {
+
+		try {
+
+			const store = await this._getStore('readonly');
+
+			return await promisify(store.count());
+
+		} catch (err) {
+
+			console.error(err);
+
+			return 0;
+		}
+	}
+
+	// -----------------
+	// PRIVATE FUNCTIONS
+	// -----------------
+
+	/**
+	 * Gets the object store to read and write values in, within a new transaction.
+	 * 
+	 * @param mode - The transaction mode.
+	 * 
+	 * @returns The object store.
+	 */
+	private async _getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+
+		const database = await this._open();
+
+		return database.transaction(this._storeName, mode).objectStore(this._storeName);
+	}
+
+	/**
+	 * Opens the database connection, creating the object store if it does not exist yet.
+	 * 
+	 * @returns The open database connection.
+	 */
+	private _open(): Promise<IDBDatabase> {
+
+		if (!this._database) {
+
+			this._database = this._connect().catch((err) => {
+
+				// Allow the connection to be retried on the next storage operation.
+				this._database = undefined;
+
+				throw err;
+			});
+		}
+
+		return this._database;
+	}
+
+	/**
+	 * Connects to the database, upgrading the database version if the object store is not available in the current version.
+	 * 
+	 * @param version - The database version to open, or undefined to open the current version.
+	 * 
+	 * @returns The open database connection.
+	 */
+	private async _connect(version?: number): Promise<IDBDatabase> {
+
+		const request = window.indexedDB.open(this._databaseName, version);
+
+		request.onupgradeneeded = (): void => {
+
+			if (!request.result.objectStoreNames.contains(this._storeName)) {
+				request.result.createObjectStore(this._storeName);
+			}
+		};
+
+		const database = await promisify(request);
+
+		// If the database already existed without the object store, then reopen it with a new version to create the object store.
+		if (!database.objectStoreNames.contains(this._storeName)) {
+
+			const nextVersion = database.version + 1;
+
+			database.close();
+
+			return this._connect(nextVersion);
+		}
+
+		// Release the connection when another connection needs to upgrade the database, it will be reopened on the next storage operation.
+		database.onversionchange = (): void => {
+
+			database.close();
+
+			this._database = undefined;
+		};
+
+		return database;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { StorageChange } from '../types.js';
+import { LocalStorage } from './LocalStorage.js';
+
+/**
+ * Minimal stand-in for the browser `Storage` API.
+ */
+class FakeStorage {
+
+	items = new Map<string, string>();
+
+	get length(): number {
+		return this.items.size;
+	}
+
+	getItem(key: string): string | null {
+		return this.items.get(key) ?? null;
+	}
+
+	setItem(key: string, value: string): void {
+		this.items.set(key, value);
+	}
+
+	removeItem(key: string): void {
+		this.items.delete(key);
+	}
+
+	clear(): void {
+		this.items.clear();
+	}
+
+	key(index: number): string | null {
+		return Array.from(this.items.keys())[index] ?? null;
+	}
+}
+
+describe('LocalStorage', () => {
+
+	let fakeWindow: EventTarget & { localStorage: FakeStorage, sessionStorage: FakeStorage };
+
+	/**
+	 * Dispatches a storage event, as raised by the browser when another tab changes storage.
+	 */
+	const dispatchStorageEvent = (key: string | null, newValue: string | null, storageArea: FakeStorage = fakeWindow.localStorage): void => {
+		fakeWindow.dispatchEvent(Object.assign(new Event('storage'), { key, newValue, storageArea }));
+	};
+
+	beforeEach(() => {
+
+		fakeWindow = Object.assign(new EventTarget(), { localStorage: new FakeStorage(), sessionStorage: new FakeStorage() });
+
+		vi.stubGlobal('window', fakeWindow);
+	});
+
+	afterEach(() => {
+
+		vi.unstubAllGlobals();
+	});
+
+	it('stores values as JSON strings', () => {
+
+		LocalStorage.set('person', { firstName: 'Hello' });
+
+		expect(fakeWindow.localStorage.getItem('person')).toBe('{"firstName":"Hello"}');
+		expect(LocalStorage.get('person')).toEqual({ firstName: 'Hello' });
+	});
+
+	it('preserves values that can not be represented in plain JSON', () => {
+
+		LocalStorage.set('person', { firstName: 'Hello', bornAt: new Date(0), tags: new Set(['a']) });
+
+		expect(LocalStorage.get('person')).toEqual({ firstName: 'Hello', bornAt: new Date(0), tags: new Set(['a']) });
+	});
+
+	it('throws when storage runs out of space, rather than losing the value', () => {
+
+		vi.spyOn(fakeWindow.localStorage, 'setItem').mockImplementation(() => {
+			throw Object.assign(new Error('The quota has been exceeded.'), { name: 'QuotaExceededError' });
+		});
+
+		expect(() => LocalStorage.set('person', { firstName: 'Hello' })).toThrow('The quota has been exceeded.');
+	});
+
+	it('throws when values can not be saved or removed, e.g. when storage access is denied', () => {
+
+		const denied = (): never => {
+			throw Object.assign(new Error('Access to storage is denied.'), { name: 'SecurityError' });
+		};
+
+		vi.spyOn(fakeWindow.localStorage, 'setItem').mockImplementation(denied);
+		vi.spyOn(fakeWindow.localStorage, 'removeItem').mockImplementation(denied);
+		vi.spyOn(fakeWindow.localStorage, 'clear').mockImplementation(denied);
+
+		expect(() => LocalStorage.set('person', { firstName: 'Hello' })).toThrow('Access to storage is denied.');
+		expect(() => LocalStorage.remove('person')).toThrow('Access to storage is denied.');
+		expect(() => LocalStorage.clear()).toThrow('Access to storage is denied.');
+	});
+
+	it('notifies subscribers of values set, removed and cleared by other tabs', () => {
+
+		const changes: StorageChange[] = [];
+		const handler = (change: StorageChange): void => {
+			changes.push(change);
+		};
+
+		LocalStorage.subscribe(handler);
+
+		dispatchStorageEvent('person', '{"firstName":"Hello"}');
+		dispatchStorageEvent('person', null);
+		dispatchStorageEvent(null, null);
+
+		LocalStorage.unsubscribe(handler);
+
+		dispatchStorageEvent('person', '{"firstName":"World"}');
+
+		expect(changes).toEqual([
+			{ key: 'person', value: { firstName: 'Hello' } },
+			{ key: 'person', value: undefined },
+			{ key: undefined, value: undefined }
+		]);
+	});
+
+	it('ignores changes made to other storage areas', () => {
+
+		const handler = vi.fn();
+
+		LocalStorage.subscribe(handler);
+
+		dispatchStorageEvent('person', '{"firstName":"Hello"}', fakeWindow.sessionStorage);
+
+		LocalStorage.unsubscribe(handler);
+
+		expect(handler).not.toHaveBeenCalled();
+	});
+});
\ No newline at end of file
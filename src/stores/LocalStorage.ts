@@ -1,11 +1,61 @@
+import type { StorageChangeHandler } from '../types.js';
+import { ObservableStorage } from '../types/ObservableStorage.js';
+import { TaggedJsonSerializer } from '../serializers/TaggedJsonSerializer.js';
+import { Serializer } from '../types/Serializer.js';
 import { SyncStorage } from '../types/SyncStorage.js';
 
 /**
  * Simple wrapper around the browser `localStorage` that simplifies storing values across browser sessions.
  * 
- * Values are persisted to storage as JSON strings, and can be read back as typed objects.
+ * Values are persisted to storage as JSON strings, and can be read back as typed objects. Changes made to storage by other browser
+ * tabs are raised to subscribers from the browser `storage` event.
+ * 
+ * Values are serialized with the `TaggedJsonSerializer` by default, preserving e.g. Date, Map and Set values. A custom serializer can
+ * be provided by creating a new instance of the storage, e.g. `new LocalStorageImpl({ serializer: MySerializer })`.
  */
-class LocalStorageImpl implements SyncStorage {
+export class LocalStorageImpl implements SyncStorage, ObservableStorage {
+
+	// ----------
+	// PROPERTIES
+	// ----------
+
+	/**
+	 * The list of subscribers who are observing storage changes made by other browser tabs.
+	 */
+	private _subscribers: StorageChangeHandler[];
+
+	/**
+	 * The browser storage event listener, bound to the storage instance.
+	 */
+	private _storageListener: (event: StorageEvent) => void;
+
+	/**
+	 * The serializer to convert values to and from strings with.
+	 */
+	private _serializer: Serializer;
+
+	// ------------
+	// CONSTRUCTORS
+	// ------------
+
+	/**
+	 * Initializes the storage.
+	 * 
+	 * @param args - The storage arguments.
+	 * - serializer: The serializer to convert values to and from strings with, defaults to `TaggedJsonSerializer`.
+	 */
+	constructor({ serializer = TaggedJsonSerializer }: { serializer?: Serializer } = {}) {
+
+		// Set default storage values.
+		this._subscribers = [];
+		this._serializer = serializer;
+
+		this._storageListener = (event: StorageEvent): void => this._onStorage(event);
+	}
+
+	// ----------------
+	// PUBLIC FUNCTIONS
+	// ----------------
 
 	/**
 	 * Gets a value from storage for the given key.
@@ -24,7 +74,7 @@ class LocalStorageImpl implements SyncStorage {
 				return undefined;
 			}
 
-			return JSON.parse(result) as T;
+			return this._serializer.deserialize<T>(result);
 
 		} catch (err) {
 
@@ -35,7 +85,8 @@ class LocalStorageImpl implements SyncStorage {
 	}
 
 	/** 
-	 * Sets a value in storage for the given key.
+	 * Sets a value in storage for the given key, failing if the value can not be saved, e.g. when storage runs out of space, so the write can be
+	 * retried rather than losing the value.
 	 * 
 	 * @param key - The key under which to store the value.
 	 * @param value - The value to store.
@@ -44,14 +95,7 @@ class LocalStorageImpl implements SyncStorage {
 	 */
 	set(key: string, value: unknown): void {
 
-		try {
-
-			window.localStorage.setItem(key, JSON.stringify(value));
-
-		} catch (err) {
-
-			console.error(err);
-		}
+		window.localStorage.setItem(key, this._serializer.serialize(value));
 	}
 
 	/**
@@ -63,14 +107,7 @@ class LocalStorageImpl implements SyncStorage {
 	 */
 	remove(key: string): void {
 
-		try {
-
-			window.localStorage.removeItem(key);
-
-		} catch (err) {
-
-			console.error(err);
-		}
+		window.localStorage.removeItem(key);
 	}
 
 	/**
@@ -80,14 +117,7 @@ class LocalStorageImpl implements SyncStorage {
 	 */
 	clear(): void {
 
-		try {
-
-			window.localStorage.clear();
-
-		} catch (err) {
-
-			console.error(err);
-		}
+		window.localStorage.clear();
 	}
 
 	/**
@@ -121,6 +151,77 @@ class LocalStorageImpl implements SyncStorage {
 
 		return window.localStorage.length;
 	}
+
+	/**
+	 * Registers a subscriber to listen for storage changes made by other browser tabs.
+	 * 
+	 * @param handler - The function to call when storage changes.
+	 * 
+	 * @returns Nothing.
+	 */
+	subscribe(handler: StorageChangeHandler): void {
+
+		// Start listening for browser storage events when the first subscriber is registered.
+		if (this._subscribers.length === 0 && typeof window !== 'undefined') {
+			window.addEventListener('storage', this._storageListener);
+		}
+
+		this._subscribers.push(handler);
+	}
+
+	/**
+	 * Removes a registered storage change subscriber.
+	 * 
+	 * @param handler - The function to call when storage changes.
+	 * 
+	 * @returns Nothing.
+	 */
+	unsubscribe(handler: StorageChangeHandler): void {
+
+		this._subscribers = this._subscribers.filter(subscriber => subscriber !== handler);
+
+		// Stop listening for browser storage events when the last subscriber is removed.
+		if (this._subscribers.length === 0 && typeof window !== 'undefined') {
+			window.removeEventListener('storage', this._storageListener);
+		}
+	}
+
+	// -----------------
+	// PRIVATE FUNCTIONS
+	// -----------------
+
+	/**
+	 * Notifies subscribers of a change made to `localStorage` by another browser tab.
+	 * 
+	 * @param event - The browser storage event.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _onStorage(event: StorageEvent): void {
+
+		// Ignore changes made to other storage areas, e.g. `sessionStorage`.
+		if (event.storageArea !== window.localStorage) {
+			return;
+		}
+
+		let value: unknown = undefined;
+
+		try {
+
+			if (event.newValue) {
+				value = this._serializer.deserialize(event.newValue);
+			}
+
+		} catch (err) {
+
+			console.error(err);
+		}
+
+		// Notify subscribers of the change, a null key indicates that storage was cleared.
+		for (const subscriber of this._subscribers) {
+			subscriber({ key: event.key ?? undefined, value });
+		}
+	}
 }
 
 export const LocalStorage = new LocalStorageImpl();
\ No newline at end of file
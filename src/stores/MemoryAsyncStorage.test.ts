@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { MemoryAsyncStorage } from './MemoryAsyncStorage.js';
+
+describe('MemoryAsyncStorage', () => {
+
+	let storage: MemoryAsyncStorage;
+
+	beforeEach(() => {
+
+		storage = new MemoryAsyncStorage();
+	});
+
+	afterEach(() => {
+
+		vi.useRealTimers();
+	});
+
+	it('sets and gets values', async () => {
+
+		await storage.set('person', { firstName: 'Hello', lastName: 'World' });
+
+		await expect(storage.get('person')).resolves.toEqual({ firstName: 'Hello', lastName: 'World' });
+		await expect(storage.get('missing')).resolves.toBeUndefined();
+	});
+
+	it('removes and clears values', async () => {
+
+		await storage.set('a', 1);
+		await storage.set('b', 2);
+		await storage.set('c', 3);
+
+		await storage.remove('a');
+
+		await expect(storage.keys()).resolves.toEqual(['b', 'c']);
+		await expect(storage.key(0)).resolves.toBe('b');
+		await expect(storage.size()).resolves.toBe(2);
+
+		await storage.clear();
+
+		await expect(storage.size()).resolves.toBe(0);
+	});
+
+	it('applies the configured latency to storage operations', async () => {
+
+		vi.useFakeTimers();
+
+		storage = new MemoryAsyncStorage({ latency: 100 });
+
+		let settled = false;
+
+		const operation = storage.set('a', 1).then(() => {
+			settled = true;
+		});
+
+		await vi.advanceTimersByTimeAsync(99);
+
+		expect(settled).toBe(false);
+
+		await vi.advanceTimersByTimeAsync(1);
+		await operation;
+
+		expect(settled).toBe(true);
+	});
+
+	it('requires a positive latency', () => {
+
+		expect(() => new MemoryAsyncStorage({ latency: -1 })).toThrowError();
+	});
+});
\ No newline at end of file
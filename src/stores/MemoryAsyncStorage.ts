@@ -0,0 +1,158 @@
+import { AsyncStorage } from '../types/AsyncStorage.js';
+import { MemoryStorage } from './MemoryStorage.js';
+
+/**
+ * Storage class that keeps values in memory for the lifetime of the storage instance, accessed asynchronously.
+ * 
+ * Useful as a stand-in for asynchronous storage in environments without a `window`, e.g. unit tests and server-side rendering. An
+ * artificial latency can be configured to simulate the delay of reading and writing values from e.g. an online service.
+ */
+export class MemoryAsyncStorage implements AsyncStorage {
+
+	// ----------
+	// PROPERTIES
+	// ----------
+
+	/**
+	 * The in-memory storage holding the values.
+	 */
+	private _storage: MemoryStorage;
+
+	/**
+	 * The delay in milliseconds to apply to each storage operation.
+	 */
+	private _latency: number;
+
+	// ------------
+	// CONSTRUCTORS
+	// ------------
+
+	/**
+	 * Initializes the storage.
+	 * 
+	 * @param args - The storage arguments.
+	 * - latency: The delay in milliseconds to apply to each storage operation, defaults to 0.
+	 */
+	constructor({ latency = 0 }: { latency?: number } = {}) {
+
+		// Validate the storage parameters.
+		if (latency < 0) {
+			throw new Error(`MemoryAsyncStorage - requires a "latency" of 0 or more milliseconds, received ${latency}.`);
+		}
+
+		// Set default storage values.
+		this._storage = new MemoryStorage();
+		this._latency = latency;
+	}
+
+	// ----------------
+	// PUBLIC FUNCTIONS
+	// ----------------
+
+	/**
+	 * Gets a value from storage for the given key.
+	 * 
+	 * @param key - The key under which the value is stored.
+	 * 
+	 * @returns The stored value, or undefined if not set.
+	 */
+	async get<T>(key: string): Promise<T | undefined> {
+
+		await this._delay();
+
+		return this._storage.get<T>(key);
+	}
+
+	/**
+	 * Sets a value in storage for the given key.
+	 * 
+	 * @param key - The key under which to store the value.
+	 * @param value - The value to store.
+	 * 
+	 * @returns Nothing.
+	 */
+	async set(key: string, value: unknown): Promise<void> {
+
+		await this._delay();
+
+		this._storage.set(key, value);
+	}
+
+	/**
+	 * Removes a value from storage for the given key.
+	 * 
+	 * @param key - The key of the value to remove.
+	 * 
+	 * @returns Nothing.
+	 */
+	async remove(key: string): Promise<void> {
+
+		await this._delay();
+
+		this._storage.remove(key);
+	}
+
+	/**
+	 * Removes all values from storage.
+	 * 
+	 * @returns Nothing.
+	 */
+	async clear(): Promise<void> {
+
+		await this._delay();
+
+		this._storage.clear();
+	}
+
+	/**
+	 * Get the name of the key at a given index.
+	 * 
+	 * @param index - The index number to get the key name for.
+	 * 
+	 * @returns The name of the key at the index.
+	 */
+	async key(index: number): Promise<string | undefined> {
+
+		await this._delay();
+
+		return this._storage.key(index);
+	}
+
+	/**
+	 * Finds a list of all keys in storage.
+	 * 
+	 * @returns The list of keys in storage.
+	 */
+	async keys(): Promise<string[]> {
+
+		await this._delay();
+
+		return this._storage.keys();
+	}
+
+	/**
+	 * Get the number of items in storage.
+	 * 
+	 * @returns The storage item count.
+	 */
+	async size(): Promise<number> {
+
+		await this._delay();
+
+		return this._storage.size();
+	}
+
+	// -----------------
+	// PRIVATE FUNCTIONS
+	// -----------------
+
+	/**
+	 * Waits for the configured latency to pass.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _delay(): Promise<void> {
+
+		return new Promise(resolve => setTimeout(resolve, this._latency));
+	}
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { MemoryStorage } from './MemoryStorage.js';
+
+describe('MemoryStorage', () => {
+
+	let storage: MemoryStorage;
+
+	beforeEach(() => {
+
+		storage = new MemoryStorage();
+	});
+
+	it('returns undefined for keys that are not set', () => {
+
+		expect(storage.get('missing')).toBeUndefined();
+	});
+
+	it('sets and gets values', () => {
+
+		storage.set('person', { firstName: 'Hello', lastName: 'World' });
+
+		expect(storage.get('person')).toEqual({ firstName: 'Hello', lastName: 'World' });
+	});
+
+	it('prevents stored values from being modified by reference', () => {
+
+		const value = { count: 1 };
+
+		storage.set('value', value);
+
+		value.count = 2;
+
+		const storedValue = storage.get<{ count: number }>('value') as { count: number };
+
+		storedValue.count = 3;
+
+		expect(storage.get('value')).toEqual({ count: 1 });
+	});
+
+	it('removes values', () => {
+
+		storage.set('a', 1);
+		storage.set('b', 2);
+
+		storage.remove('a');
+
+		expect(storage.get('a')).toBeUndefined();
+		expect(storage.get('b')).toBe(2);
+	});
+
+	it('clears all values', () => {
+
+		storage.set('a', 1);
+		storage.set('b', 2);
+
+		storage.clear();
+
+		expect(storage.size()).toBe(0);
+		expect(storage.keys()).toEqual([]);
+	});
+
+	it('lists keys, key by index and size', () => {
+
+		storage.set('a', 1);
+		storage.set('b', 2);
+
+		expect(storage.keys()).toEqual(['a', 'b']);
+		expect(storage.key(1)).toBe('b');
+		expect(storage.key(2)).toBeUndefined();
+		expect(storage.size()).toBe(2);
+	});
+
+	it('keeps values separate between storage instances', () => {
+
+		storage.set('a', 1);
+
+		expect(new MemoryStorage().get('a')).toBeUndefined();
+	});
+});
\ No newline at end of file
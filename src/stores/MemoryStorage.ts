@@ -0,0 +1,116 @@
+import { SyncStorage } from '../types/SyncStorage.js';
+import { deepCopy } from '../utilities/deepCopy.js';
+
+/**
+ * Storage class that keeps values in memory for the lifetime of the storage instance.
+ * 
+ * Useful as a stand-in for browser storage in environments without a `window`, e.g. unit tests and server-side rendering. Values are
+ * copied when stored and read, preventing modification of stored values by reference.
+ */
+export class MemoryStorage implements SyncStorage {
+
+	// ----------
+	// PROPERTIES
+	// ----------
+
+	/**
+	 * The values held in storage.
+	 */
+	private _values: Map<string, unknown>;
+
+	// ------------
+	// CONSTRUCTORS
+	// ------------
+
+	/**
+	 * Initializes the storage.
+	 */
+	constructor() {
+
+		// Set default storage values.
+		this._values = new Map<string, unknown>();
+	}
+
+	// ----------------
+	// PUBLIC FUNCTIONS
+	// ----------------
+
+	/**
+	 * Gets a value from storage for the given key.
+	 * 
+	 * @param key - The key under which the value is stored.
+	 * 
+	 * @returns The stored value, or undefined if not set.
+	 */
+	get<T>(key: string): T | undefined {
+
+		return deepCopy(this._values.get(key)) as T | undefined;
+	}
+
+	/**
+	 * Sets a value in storage for the given key.
+	 * 
+	 * @param key - The key under which to store the value.
+	 * @param value - The value to store.
+	 * 
+	 * @returns Nothing.
+	 */
+	set(key: string, value: unknown): void {
+
+		this._values.set(key, deepCopy(value));
+	}
+
+	/**
+	 * Removes a value from storage for the given key.
+	 * 
+	 * @param key - The key of the value to remove.
+	 * 
+	 * @returns Nothing.
+	 */
+	remove(key: string): void {
+
+		this._values.delete(key);
+	}
+
+	/**
+	 * Removes all values from storage.
+	 * 
+	 * @returns Nothing.
+	 */
+	clear(): void {
+
+		this._values.clear();
+	}
+
+	/**
+	 * Get the name of the key at a given index.
+	 * 
+	 * @param index - The index number to get the key name for.
+	 * 
+	 * @returns The name of the key at the index.
+	 */
+	key(index: number): string | undefined {
+
+		return this.keys()[index];
+	}
+
+	/**
+	 * Finds a list of all keys in storage.
+	 * 
+	 * @returns The list of keys in storage.
+	 */
+	keys(): string[] {
+
+		return Array.from(this._values.keys());
+	}
+
+	/**
+	 * Get the number of items in storage.
+	 * 
+	 * @returns The storage item count.
+	 */
+	size(): number {
+
+		return this._values.size;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { StorageChange } from '../types.js';
+import { StatefulProperty } from '../StatefulProperty.js';
+import { StateManager } from '../StateManager.js';
+import { ObservableMemoryStorage } from '../testHelpers.tests.js';
+import { MemoryAsyncStorage } from './MemoryAsyncStorage.js';
+import { NamespacedStorage } from './NamespacedStorage.js';
+
+describe('NamespacedStorage', () => {
+
+	let innerStorage: ObservableMemoryStorage;
+
+	beforeEach(() => {
+
+		innerStorage = new ObservableMemoryStorage();
+		innerStorage.set('other-app:settings', 'other');
+	});
+
+	it('prefixes keys with the namespace', () => {
+
+		const storage = new NamespacedStorage({ storage: innerStorage, namespace: 'my-app' });
+
+		storage.set('settings', { theme: 'dark' });
+
+		expect(innerStorage.get('my-app:settings')).toEqual({ theme: 'dark' });
+		expect(storage.get('settings')).toEqual({ theme: 'dark' });
+		expect(storage.keys()).toEqual(['settings']);
+		expect(storage.key(0)).toBe('settings');
+		expect(storage.size()).toBe(1);
+	});
+
+	it('only clears the values within the namespace', () => {
+
+		const storage = new NamespacedStorage({ storage: innerStorage, namespace: 'my-app' });
+
+		storage.set('settings', 'mine');
+		storage.clear();
+
+		expect(storage.size()).toBe(0);
+		expect(innerStorage.keys()).toEqual(['other-app:settings']);
+	});
+
+	it('isolates nested namespaces from each other', () => {
+
+		const appStorage = new NamespacedStorage({ storage: innerStorage, namespace: 'my-app' });
+		const userStorage = new NamespacedStorage({ storage: innerStorage, namespace: 'my-app:123' });
+		const changes: StorageChange[] = [];
+
+		appStorage.subscribe(change => changes.push(change));
+
+		appStorage.set('theme', 'dark');
+		appStorage.set('123:settings', 'app');
+		userStorage.set('settings', 'user');
+
+		expect(innerStorage.keys()).toEqual(['other-app:settings', 'my-app:theme', 'my-app:123:settings', 'my-app%3A123:settings']);
+		expect(appStorage.keys()).toEqual(['theme', '123:settings']);
+		expect(appStorage.size()).toBe(2);
+		expect(userStorage.keys()).toEqual(['settings']);
+		expect(userStorage.get('settings')).toBe('user');
+
+		innerStorage.changeExternally({ key: 'my-app%3A123:settings', value: 'changed' });
+		innerStorage.changeExternally({ key: 'my-app:theme', value: 'light' });
+
+		expect(changes).toEqual([{ key: 'theme', value: 'light' }]);
+
+		appStorage.clear();
+
+		expect(userStorage.get('settings')).toBe('changed');
+		expect(innerStorage.keys()).toEqual(['other-app:settings', 'my-app%3A123:settings']);
+	});
+
+	it('wraps asynchronous storage', async () => {
+
+		const storage = new NamespacedStorage({ storage: new MemoryAsyncStorage(), namespace: 'my-app' });
+
+		await storage.set('settings', 'mine');
+
+		expect(await storage.get('settings')).toBe('mine');
+		expect(await storage.keys()).toEqual(['settings']);
+
+		await storage.clear();
+
+		expect(await storage.size()).toBe(0);
+	});
+
+	it('re-hydrates properties when the namespace is switched', async () => {
+
+		const storage = new NamespacedStorage({ storage: innerStorage, namespace: 'user-1' });
+		const settings = new StatefulProperty<string>({ storage, key: 'settings' });
+		const history = new StatefulProperty<string[]>({ storage, key: 'history' });
+		const token = new StatefulProperty<string>({ storage, key: 'token', sync: false });
+
+		settings.set('first user');
+		history.set(['a']);
+		token.set('first token');
+		innerStorage.set('user-2:settings', 'second user');
+		innerStorage.set('user-2:token', 'second token');
+
+		await storage.setNamespace('user-2');
+
+		expect(storage.namespace).toBe('user-2');
+		expect(settings.get()).toBe('second user');
+		expect(history.exists()).toBe(false);
+		expect(token.get()).toBe('second token');
+
+		settings.set('changed');
+
+		expect(innerStorage.get('user-2:settings')).toBe('changed');
+		expect(innerStorage.get('user-1:settings')).toBe('first user');
+	});
+
+	it('saves writes requested while the namespace is switched under the new namespace only', async () => {
+
+		const asyncStorage = new MemoryAsyncStorage({ latency: 5 });
+		const storage = new NamespacedStorage({ storage: asyncStorage, namespace: 'user-1' });
+		const settings = new StatefulProperty<string>({ storage, key: 'settings' });
+		const keys = asyncStorage.keys.bind(asyncStorage);
+
+		settings.set('first user');
+
+		await StateManager.flush();
+
+		// Request writes once the namespace switch started listing keys, after the pending writes completed.
+		vi.spyOn(asyncStorage, 'keys').mockImplementationOnce(() => {
+
+			settings.set('a');
+			settings.set('b');
+
+			return keys();
+		});
+
+		await storage.setNamespace('user-2');
+		await StateManager.flush();
+
+		expect(await asyncStorage.get('user-1:settings')).toBe('first user');
+		expect(await asyncStorage.get('user-2:settings')).toBe('b');
+		expect(settings.get()).toBe('b');
+	});
+
+	it('requires a namespace', () => {
+
+		expect(() => new NamespacedStorage({ storage: innerStorage, namespace: '' })).toThrow(/requires a "namespace"/);
+	});
+});
\ No newline at end of file
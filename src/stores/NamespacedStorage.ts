@@ -0,0 +1,366 @@
+import type { StorageChange, StorageChangeHandler } from '../types.js';
+import { StateManager } from '../StateManager.js';
+import { AsyncStorage } from '../types/AsyncStorage.js';
+import { ObservableStorage } from '../types/ObservableStorage.js';
+import { SyncStorage } from '../types/SyncStorage.js';
+import { isObservableStorage } from '../utilities/isObservableStorage.js';
+import { isPromise } from '../utilities/isPromise.js';
+
+/**
+ * The result of a storage operation, returned synchronously for synchronous storage, and as a promise for asynchronous storage.
+ */
+type StorageResult<S, T> = S extends AsyncStorage ? Promise<T> : T;
+
+/**
+ * Storage wrapper that isolates values under a namespace within another storage mechanism, e.g. to prevent keys of different apps,
+ * or different users, sharing the same origin from colliding.
+ * 
+ * Keys are prefixed with the namespace and a ":" when values are saved, and the prefix is stripped when keys are read. Any ":" or "%"
+ * within the namespace is percent-encoded, thus nested namespaces, e.g. "my-app" and "my-app:123", remain isolated from each other.
+ * Listing, counting and clearing values only applies to the values within the namespace. Operations are synchronous or asynchronous,
+ * matching the wrapped storage mechanism.
+ * 
+ * ```js
+ * import { LocalStorage, NamespacedStorage, StatefulProperty } from '@capitec/omni-state';
+ * 
+ * const UserStorage = new NamespacedStorage({ storage: LocalStorage, namespace: 'my-app:anonymous' });
+ * 
+ * const settings = new StatefulProperty({ storage: UserStorage, key: 'settings' });
+ * 
+ * // Restore the settings of the user that logged in.
+ * await UserStorage.setNamespace(`my-app:${user.id}`);
+ * ```
+ */
+export class NamespacedStorage<S extends SyncStorage | AsyncStorage = SyncStorage | AsyncStorage> implements ObservableStorage {
+
+	// ----------
+	// PROPERTIES
+	// ----------
+
+	/**
+	 * The storage mechanism to save the namespaced values in.
+	 */
+	private _storage: S;
+
+	/**
+	 * The namespace to isolate values under.
+	 */
+	private _namespace: string;
+
+	/**
+	 * The list of subscribers who are observing changes to values within the namespace.
+	 */
+	private _subscribers: StorageChangeHandler[];
+
+	/**
+	 * The subscriber registered on the wrapped storage to forward changes made to values within the namespace.
+	 */
+	private _storageListener: StorageChangeHandler;
+
+	// ------------
+	// CONSTRUCTORS
+	// ------------
+
+	/**
+	 * Initializes the storage.
+	 * 
+	 * @param args - The storage arguments.
+	 * - storage: The storage mechanism to save the namespaced values in.
+	 * - namespace: The namespace to isolate values under, e.g. the app name, or the id of the logged in user.
+	 */
+	constructor({ storage, namespace }: { storage: S, namespace: string }) {
+
+		// Validate the storage parameters.
+		if (!storage) {
+			throw new Error(`NamespacedStorage - requires a "storage" mechanism to be specified, e.g. LocalStorage, SessionStorage, or a similar interface.`);
+		}
+
+		if (!namespace) {
+			throw new Error(`NamespacedStorage - requires a "namespace" to be specified, e.g. "my-app".`);
+		}
+
+		// Set default storage values.
+		this._storage = storage;
+		this._namespace = namespace;
+		this._subscribers = [];
+
+		this._storageListener = (change: StorageChange): void => this._onStorageChange(change);
+	}
+
+	// ----------------
+	// PUBLIC FUNCTIONS
+	// ----------------
+
+	/**
+	 * Get the namespace values are isolated under.
+	 * 
+	 * @returns The namespace.
+	 */
+	get namespace(): string {
+
+		return this._namespace;
+	}
+
+	/**
+	 * Switches the namespace values are isolated under, e.g. when a user logs in, and re-hydrates the properties persisted to the storage
+	 * with their values from the new namespace.
+	 * 
+	 * Pending writes are completed under the previous namespace first, after which the namespace is switched without waiting, thus any
+	 * write requested afterwards is saved under the new namespace. Properties are re-hydrated by notifying subscribers of each key within
+	 * either namespace, which applies to all properties persisted to the storage, including properties that do not follow changes made
+	 * from outside of the app, i.e. with `sync` disabled.
+	 * 
+	 * @param namespace - The new namespace.
+	 * 
+	 * @returns Nothing.
+	 */
+	async setNamespace(namespace: string): Promise<void> {
+
+		if (!namespace) {
+			throw new Error(`NamespacedStorage - requires a "namespace" to be specified, e.g. "my-app".`);
+		}
+
+		if (namespace === this._namespace) {
+			return;
+		}
+
+		// Complete the pending writes, as they are saved under the namespace at the time they run.
+		await StateManager.flush();
+
+		// Switch the namespace immediately once the writes completed, as writes requested while waiting for storage to list the keys of
+		// the previous namespace would otherwise be saved under the new namespace.
+		const previousPrefix = this._prefix('');
+
+		this._namespace = namespace;
+
+		const previousKeys = await this._keys(previousPrefix);
+		const keys = await this._keys(this._prefix(''));
+
+		// Notify subscribers of the value of each key in the new namespace, or that the key was removed if it is not in the new namespace.
+		for (const key of new Set([...previousKeys, ...keys])) {
+
+			const value = await Promise.resolve(this.get(key));
+
+			this._notify({ key, value, rehydrate: true });
+		}
+	}
+
+	/**
+	 * Gets a value from storage for the given key within the namespace.
+	 * 
+	 * @param key - The key under which the value is stored.
+	 * 
+	 * @returns The stored value, or undefined if not set.
+	 */
+	get<T>(key: string): StorageResult<S, T | undefined> {
+
+		return this._storage.get<T>(this._prefix(key)) as StorageResult<S, T | undefined>;
+	}
+
+	/**
+	 * Sets a value in storage for the given key within the namespace.
+	 * 
+	 * @param key - The key under which to store the value.
+	 * @param value - The value to store.
+	 * 
+	 * @returns Nothing.
+	 */
+	set(key: string, value: unknown): StorageResult<S, void> {
+
+		return this._storage.set(this._prefix(key), value) as StorageResult<S, void>;
+	}
+
+	/**
+	 * Removes a value from storage for the given key within the namespace.
+	 * 
+	 * @param key - The key of the value to remove.
+	 * 
+	 * @returns Nothing.
+	 */
+	remove(key: string): StorageResult<S, void> {
+
+		return this._storage.remove(this._prefix(key)) as StorageResult<S, void>;
+	}
+
+	/**
+	 * Removes all values within the namespace from storage, leaving values outside of the namespace.
+	 * 
+	 * @returns Nothing.
+	 */
+	clear(): StorageResult<S, void> {
+
+		return this._then(this._storage.keys(), storageKeys => {
+
+			const results = storageKeys.filter(storageKey => this._isNamespaced(storageKey)).map(storageKey => this._storage.remove(storageKey));
+
+			if (results.some(isPromise)) {
+				return Promise.all(results).then(() => undefined);
+			}
+
+			return undefined;
+		}) as StorageResult<S, void>;
+	}
+
+	/**
+	 * Get the name of the key at a given index within the namespace.
+	 * 
+	 * @param index - The index number to get the key name for.
+	 * 
+	 * @returns The name of the key at the index.
+	 */
+	key(index: number): StorageResult<S, string | undefined> {
+
+		return this._then(this.keys() as string[] | Promise<string[]>, keys => keys[index]) as StorageResult<S, string | undefined>;
+	}
+
+	/**
+	 * Finds a list of all keys within the namespace, without the namespace prefix.
+	 * 
+	 * @returns The list of keys in the namespace.
+	 */
+	keys(): StorageResult<S, string[]> {
+
+		return this._keys(this._prefix('')) as StorageResult<S, string[]>;
+	}
+
+	/**
+	 * Get the number of items within the namespace.
+	 * 
+	 * @returns The namespace item count.
+	 */
+	size(): StorageResult<S, number> {
+
+		return this._then(this.keys() as string[] | Promise<string[]>, keys => keys.length) as StorageResult<S, number>;
+	}
+
+	/**
+	 * Registers a subscriber to listen for changes to values within the namespace, made from outside of the app or by switching the namespace.
+	 * 
+	 * @param handler - The function to call when storage changes.
+	 * 
+	 * @returns Nothing.
+	 */
+	subscribe(handler: StorageChangeHandler): void {
+
+		// Start forwarding changes made to the wrapped storage when the first subscriber is registered.
+		if (this._subscribers.length === 0 && isObservableStorage(this._storage)) {
+			this._storage.subscribe(this._storageListener);
+		}
+
+		this._subscribers.push(handler);
+	}
+
+	/**
+	 * Removes a registered storage change subscriber.
+	 * 
+	 * @param handler - The function to call when storage changes.
+	 * 
+	 * @returns Nothing.
+	 */
+	unsubscribe(handler: StorageChangeHandler): void {
+
+		this._subscribers = this._subscribers.filter(subscriber => subscriber !== handler);
+
+		// Stop forwarding changes made to the wrapped storage when the last subscriber is removed.
+		if (this._subscribers.length === 0 && isObservableStorage(this._storage)) {
+			this._storage.unsubscribe(this._storageListener);
+		}
+	}
+
+	// -----------------
+	// PRIVATE FUNCTIONS
+	// -----------------
+
+	/**
+	 * Prefixes a key with the namespace.
+	 * 
+	 * The delimiter is escaped within the namespace, thus the prefix ends at the first delimiter of the key, and a namespace never
+	 * matches the keys of a nested namespace, e.g. "my-app" and "my-app:123".
+	 * 
+	 * @param key - The key to prefix.
+	 * 
+	 * @returns The key within the namespace.
+	 */
+	private _prefix(key: string): string {
+
+		return `${this._namespace.replace(/%/g, '%25').replace(/:/g, '%3A')}:${key}`;
+	}
+
+	/**
+	 * Finds a list of all keys of the wrapped storage with a given prefix, without the prefix.
+	 * 
+	 * @param prefix - The prefix of the keys to find.
+	 * 
+	 * @returns The list of keys with the prefix.
+	 */
+	private _keys(prefix: string): string[] | Promise<string[]> {
+
+		return this._then(this._storage.keys(), storageKeys => {
+
+			return storageKeys.filter(storageKey => storageKey.startsWith(prefix)).map(storageKey => storageKey.slice(prefix.length));
+		});
+	}
+
+	/**
+	 * Check if a key of the wrapped storage is within the namespace.
+	 * 
+	 * @param storageKey - The key of the wrapped storage.
+	 * 
+	 * @returns True if the key is within the namespace, otherwise false.
+	 */
+	private _isNamespaced(storageKey: string): boolean {
+
+		return storageKey.startsWith(this._prefix(''));
+	}
+
+	/**
+	 * Maps the result of a wrapped storage operation, synchronously or asynchronously, matching the result.
+	 * 
+	 * @param result - The result of the wrapped storage operation.
+	 * @param map - The function to map the result with.
+	 * 
+	 * @returns The mapped result.
+	 */
+	private _then<A, B>(result: A | Promise<A>, map: (value: A) => B): B | Promise<B> {
+
+		if (isPromise(result)) {
+			return (result as Promise<A>).then(map);
+		}
+
+		return map(result as A);
+	}
+
+	/**
+	 * Forwards a change made to the wrapped storage to subscribers, if it applies to the namespace.
+	 * 
+	 * @param change - The change made to the wrapped storage.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _onStorageChange(change: StorageChange): void {
+
+		// Forward changes when all values were cleared from storage.
+		if (change.key === undefined) {
+			this._notify(change);
+			return;
+		}
+
+		if (this._isNamespaced(change.key)) {
+			this._notify({ key: change.key.slice(this._prefix('').length), value: change.value });
+		}
+	}
+
+	/**
+	 * Notifies subscribers of a change to a value within the namespace.
+	 * 
+	 * @param change - The change to the value.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _notify(change: StorageChange): void {
+
+		for (const subscriber of [...this._subscribers]) {
+			subscriber(change);
+		}
+	}
+}
\ No newline at end of file
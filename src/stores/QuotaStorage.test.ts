@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { MemoryAsyncStorage } from './MemoryAsyncStorage.js';
+import { MemoryStorage } from './MemoryStorage.js';
+import { NamespacedStorage } from './NamespacedStorage.js';
+import { QuotaStorage } from './QuotaStorage.js';
+
+/**
+ * Creates the error thrown by the browser when storage runs out of space.
+ */
+const quotaExceededError = (): Error => Object.assign(new Error('The quota has been exceeded.'), { name: 'QuotaExceededError' });
+
+describe('QuotaStorage', () => {
+
+	let innerStorage: MemoryStorage;
+
+	/**
+	 * The estimated size of each value saved in the tests, i.e. a single character key and an 8 character string value.
+	 */
+	const SIZE = (1 + '"xxxxxxxx"'.length) * 2;
+
+	beforeEach(() => {
+
+		innerStorage = new MemoryStorage();
+	});
+
+	it('evicts the least recently used values to stay within the quota', async () => {
+
+		const storage = new QuotaStorage({ storage: innerStorage, quota: SIZE * 2 });
+
+		await storage.set('a', 'xxxxxxxx');
+		await storage.set('b', 'xxxxxxxx');
+		await storage.get('a');
+		await storage.set('c', 'xxxxxxxx');
+
+		expect(innerStorage.keys()).toEqual(['a', 'c']);
+		expect(await storage.usage()).toEqual({
+			used: SIZE * 2,
+			quota: SIZE * 2,
+			entries: [{ key: 'a', size: SIZE }, { key: 'c', size: SIZE }]
+		});
+	});
+
+	it('evicts the values with the lowest priority first', async () => {
+
+		const storage = new QuotaStorage({ storage: innerStorage, quota: SIZE * 2, policy: 'priority', priority: { a: 1 } });
+
+		await storage.set('a', 'xxxxxxxx');
+		await storage.set('b', 'xxxxxxxx');
+		await storage.set('c', 'xxxxxxxx');
+
+		expect(innerStorage.keys()).toEqual(['a', 'c']);
+	});
+
+	it('evicts the values that expire soonest when storage runs out of space, and saves the value again', async () => {
+
+		const onEvict = vi.fn<[string, number], void>();
+		const storage = new QuotaStorage({ storage: innerStorage, policy: 'expiry', onEvict });
+
+		await storage.set('a', 'no expiry');
+		await storage.set('b', { $state: { expiresAt: 2000 }, value: 'later' });
+		await storage.set('c', { $state: { expiresAt: 1000 }, value: 'sooner' });
+
+		// Simulate storage that can only hold 2 values.
+		const set = innerStorage.set.bind(innerStorage);
+
+		vi.spyOn(innerStorage, 'set').mockImplementation((key, value) => {
+
+			if (innerStorage.size() >= 2) {
+				throw quotaExceededError();
+			}
+
+			set(key, value);
+		});
+
+		await storage.set('d', 'new');
+
+		expect(innerStorage.keys()).toEqual(['a', 'd']);
+		expect(onEvict.mock.calls.map(([key]) => key)).toEqual(['c', 'b']);
+	});
+
+	it('accounts for and evicts the values saved in an earlier session', async () => {
+
+		innerStorage.set('a', 'xxxxxxxx');
+		innerStorage.set('b', 'xxxxxxxx');
+
+		const storage = new QuotaStorage({ storage: innerStorage, quota: SIZE * 2 });
+
+		expect(await storage.usage()).toEqual({
+			used: SIZE * 2,
+			quota: SIZE * 2,
+			entries: [{ key: 'a', size: SIZE }, { key: 'b', size: SIZE }]
+		});
+
+		await storage.set('c', 'xxxxxxxx');
+
+		expect(innerStorage.keys()).toEqual(['b', 'c']);
+	});
+
+	it('only accounts for and evicts the values within the namespace of a wrapped namespaced storage', async () => {
+
+		innerStorage.set('other-app', 'xxxxxxxx');
+
+		const storage = new QuotaStorage({ storage: new NamespacedStorage({ storage: innerStorage, namespace: 'my-app' }), quota: SIZE * 2 });
+
+		await storage.set('a', 'xxxxxxxx');
+		await storage.set('b', 'xxxxxxxx');
+		await storage.set('c', 'xxxxxxxx');
+
+		expect(innerStorage.keys()).toEqual(['other-app', 'my-app:b', 'my-app:c']);
+
+		await storage.clear();
+
+		expect(innerStorage.keys()).toEqual(['other-app']);
+	});
+
+	it('only clears the values it accounts for', async () => {
+
+		innerStorage.set('a', 'xxxxxxxx');
+
+		const storage = new QuotaStorage({ storage: innerStorage });
+
+		await storage.set('b', 'xxxxxxxx');
+
+		// Simulate a value saved by another wrapper after the values in storage were accounted for.
+		innerStorage.set('c', 'xxxxxxxx');
+
+		await storage.clear();
+
+		expect(innerStorage.keys()).toEqual(['c']);
+		expect((await storage.usage()).used).toBe(0);
+	});
+
+	it('reads the expiry time of values saved as strings', async () => {
+
+		const storage = new QuotaStorage({ storage: innerStorage, policy: 'expiry' });
+
+		await storage.set('a', JSON.stringify({ $state: { expiresAt: 2000 }, value: 'later' }));
+		await storage.set('b', JSON.stringify({ $state: { expiresAt: 1000 }, value: 'sooner' }));
+
+		// Simulate storage that can only hold 2 values.
+		const set = innerStorage.set.bind(innerStorage);
+
+		vi.spyOn(innerStorage, 'set').mockImplementation((key, value) => {
+
+			if (innerStorage.size() >= 2) {
+				throw quotaExceededError();
+			}
+
+			set(key, value);
+		});
+
+		await storage.set('c', 'new');
+
+		expect(innerStorage.keys()).toEqual(['a', 'c']);
+	});
+
+	it('removes values once the pending writes and evictions complete', async () => {
+
+		const asyncStorage = new MemoryAsyncStorage({ latency: 5 });
+		const storage = new QuotaStorage({ storage: asyncStorage, quota: SIZE });
+
+		const write = storage.set('a', 'xxxxxxxx');
+		const remove = storage.remove('a');
+
+		await Promise.all([write, remove]);
+
+		await expect(asyncStorage.keys()).resolves.toEqual([]);
+		expect((await storage.usage()).entries).toEqual([]);
+	});
+
+	it('fails to save values that can not fit', async () => {
+
+		const storage = new QuotaStorage({ storage: innerStorage, quota: SIZE });
+
+		await storage.set('a', 'xxxxxxxx');
+
+		await expect(storage.set('b', 'xxxxxxxxx')).rejects.toThrow('QuotaStorage - "b" requires 24 bytes, which exceeds the quota of 22 bytes.');
+
+		vi.spyOn(innerStorage, 'set').mockImplementation(() => {
+			throw quotaExceededError();
+		});
+
+		await expect(storage.set('c', 'xxxxxxxx')).rejects.toThrow('The quota has been exceeded.');
+
+		expect(innerStorage.keys()).toEqual([]);
+	});
+});
\ No newline at end of file
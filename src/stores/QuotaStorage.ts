@@ -0,0 +1,477 @@
+import type { StorageEvictionPolicy, StorageUsage } from '../types.js';
+import { TaggedJsonSerializer } from '../serializers/TaggedJsonSerializer.js';
+import { AsyncStorage } from '../types/AsyncStorage.js';
+import { Serializer } from '../types/Serializer.js';
+import { SyncStorage } from '../types/SyncStorage.js';
+import { isDefined } from '../utilities/isDefined.js';
+import { isQuotaExceededError } from '../utilities/isQuotaExceededError.js';
+import { isStateEnvelope } from '../utilities/isStateEnvelope.js';
+
+/**
+ * The details tracked about a value in storage to decide which values to evict.
+ */
+type QuotaEntry = {
+	size: number;
+	expiresAt: number;
+	accessedAt: number;
+};
+
+/**
+ * Storage wrapper that limits the space used by values in another storage mechanism, evicting values to make room for new values.
+ * 
+ * The size of each value is estimated as the length of its key and serialized value in UTF-16, i.e. 2 bytes per character, matching
+ * how browsers count `localStorage` usage. Values are evicted in the order of the eviction policy when a new value would exceed the
+ * quota, or when the wrapped storage mechanism itself runs out of space, after which the value is saved again. The value being saved
+ * is never evicted, thus saving a value that can not fit fails with an error, reported through `StateManager.onWriteError`.
+ * 
+ * The values already in the storage mechanism, e.g. saved in an earlier session, are accounted for when the wrapper is first used, and
+ * may be evicted like any other value. To share a storage mechanism with other apps, e.g. `LocalStorage`, wrap a `NamespacedStorage`
+ * rather than the storage mechanism itself, thus only the values within the namespace are accounted for and evicted. Values saved as
+ * strings, e.g. by properties with a serializer, are deserialized with the serializer to find their expiry time.
+ * 
+ * ```js
+ * import { LocalStorage, NamespacedStorage, QuotaStorage, StatefulProperty } from '@capitec/omni-state';
+ * 
+ * const CacheStorage = new QuotaStorage({
+ *   storage: new NamespacedStorage({ storage: LocalStorage, namespace: 'my-app:cache' }),
+ *   quota: 2 * 1024 * 1024,
+ *   policy: 'lru'
+ * });
+ * 
+ * const products = new StatefulProperty({ storage: CacheStorage, key: 'products' });
+ * ```
+ */
+export class QuotaStorage implements AsyncStorage {
+
+	// ----------
+	// PROPERTIES
+	// ----------
+
+	/**
+	 * The storage mechanism to save the values in.
+	 */
+	private _storage: SyncStorage | AsyncStorage;
+
+	/**
+	 * The number of bytes the values may use, if limited.
+	 */
+	private _quota?: number;
+
+	/**
+	 * The order in which values are evicted.
+	 */
+	private _policy: StorageEvictionPolicy;
+
+	/**
+	 * The function that gets the priority of a value, for the "priority" eviction policy.
+	 */
+	private _priority: (key: string) => number;
+
+	/**
+	 * The serializer used to estimate the size of values.
+	 */
+	private _serializer: Serializer;
+
+	/**
+	 * The function to call when a value is evicted.
+	 */
+	private _onEvict?: (key: string, size: number) => void;
+
+	/**
+	 * The details tracked about each value in storage.
+	 */
+	private _entries: Map<string, QuotaEntry>;
+
+	/**
+	 * The promise that resolves once the values already in storage are accounted for, if started.
+	 */
+	private _loading?: Promise<void>;
+
+	/**
+	 * The counter used to order values by when they were last used.
+	 */
+	private _clock: number;
+
+	/**
+	 * The promise that resolves once the pending writes complete, to prevent concurrent writes, removals and evictions from interleaving.
+	 */
+	private _writing: Promise<void>;
+
+	// ------------
+	// CONSTRUCTORS
+	// ------------
+
+	/**
+	 * Initializes the storage.
+	 * 
+	 * @param args - The storage arguments.
+	 * - storage: The storage mechanism to save the values in.
+	 * - quota: The number of bytes the values may use, if any, otherwise values are only evicted when the storage mechanism runs out of space.
+	 * - policy: The order in which values are evicted, i.e. "lru", "priority" or "expiry", defaults to "lru".
+	 * - priority: The priority of each value, as a map of keys to priorities or a function that gets the priority of a key, with values of
+	 *   lower priority evicted first by the "priority" policy, defaults to 0 for all values.
+	 * - serializer: The serializer used to estimate the size of values, and to read the expiry time of values saved as strings, defaults to `TaggedJsonSerializer`.
+	 * - onEvict: The function to call when a value is evicted, if any.
+	 */
+	constructor({ storage, quota, policy = 'lru', priority = {}, serializer = TaggedJsonSerializer, onEvict }: {
+		storage: SyncStorage | AsyncStorage,
+		quota?: number,
+		policy?: StorageEvictionPolicy,
+		priority?: { [key: string]: number } | ((key: string) => number),
+		serializer?: Serializer,
+		onEvict?: (key: string, size: number) => void
+	}) {
+
+		// Validate the storage parameters.
+		if (!storage) {
+			throw new Error(`QuotaStorage - requires a "storage" mechanism to be specified, e.g. LocalStorage, SessionStorage, or a similar interface.`);
+		}
+
+		if (quota !== undefined && !(quota > 0)) {
+			throw new Error(`QuotaStorage - requires a "quota" of more than 0 bytes, received ${quota}.`);
+		}
+
+		if (!['lru', 'priority', 'expiry'].includes(policy)) {
+			throw new Error(`QuotaStorage - requires a "policy" of "lru", "priority" or "expiry", received "${policy}".`);
+		}
+
+		// Set default storage values.
+		this._storage = storage;
+		this._quota = quota;
+		this._policy = policy;
+		this._priority = typeof priority === 'function' ? priority : (key): number => priority[key] ?? 0;
+		this._serializer = serializer;
+		this._onEvict = onEvict;
+		this._entries = new Map();
+		this._clock = 0;
+		this._writing = Promise.resolve();
+	}
+
+	// ----------------
+	// PUBLIC FUNCTIONS
+	// ----------------
+
+	/**
+	 * Gets a value from storage for the given key, marking it as recently used, and accounting for it if it was saved by another wrapper
+	 * since the values in storage were accounted for.
+	 * 
+	 * @param key - The key under which the value is stored.
+	 * 
+	 * @returns The stored value, or undefined if not set.
+	 */
+	async get<T>(key: string): Promise<T | undefined> {
+
+		await this._load();
+
+		const value = await this._storage.get<T>(key);
+		const entry = this._entries.get(key);
+
+		if (entry) {
+
+			entry.accessedAt = ++this._clock;
+
+		} else if (isDefined(value)) {
+
+			this._entries.set(key, this._createEntry(key, value));
+		}
+
+		return value;
+	}
+
+	/**
+	 * Sets a value in storage for the given key, first evicting other values if the value would exceed the quota, and evicting further
+	 * values for as long as the storage mechanism runs out of space.
+	 * 
+	 * @param key - The key under which to store the value.
+	 * @param value - The value to store.
+	 * 
+	 * @returns Nothing.
+	 */
+	set(key: string, value: unknown): Promise<void> {
+
+		return this._enqueue(() => this._set(key, value));
+	}
+
+	/**
+	 * Removes a value from storage for the given key.
+	 * 
+	 * @param key - The key of the value to remove.
+	 * 
+	 * @returns Nothing.
+	 */
+	remove(key: string): Promise<void> {
+
+		return this._enqueue(async () => {
+
+			await this._storage.remove(key);
+
+			this._entries.delete(key);
+		});
+	}
+
+	/**
+	 * Removes all values accounted for from storage, leaving values saved by another wrapper since the values in storage were accounted for.
+	 * 
+	 * @returns Nothing.
+	 */
+	clear(): Promise<void> {
+
+		return this._enqueue(async () => {
+
+			for (const key of Array.from(this._entries.keys())) {
+
+				await this._storage.remove(key);
+
+				this._entries.delete(key);
+			}
+		});
+	}
+
+	/**
+	 * Get the name of the key at a given index.
+	 * 
+	 * @param index - The index number to get the key name for.
+	 * 
+	 * @returns The name of the key at the index.
+	 */
+	async key(index: number): Promise<string | undefined> {
+
+		return await this._storage.key(index);
+	}
+
+	/**
+	 * Finds a list of all keys in storage.
+	 * 
+	 * @returns The list of keys in storage.
+	 */
+	async keys(): Promise<string[]> {
+
+		return await this._storage.keys();
+	}
+
+	/**
+	 * Get the number of items in storage.
+	 * 
+	 * @returns The storage item count.
+	 */
+	async size(): Promise<number> {
+
+		return await this._storage.size();
+	}
+
+	/**
+	 * Get the estimated space used by the values in storage, e.g. to show how much space is left.
+	 * 
+	 * @returns The estimated number of bytes used in total and by each value, and the quota if limited.
+	 */
+	async usage(): Promise<StorageUsage> {
+
+		// Wait for the pending writes, to report the space used once they complete.
+		await this._load();
+		await this._writing;
+
+		const entries = Array.from(this._entries.entries(), ([key, { size }]) => ({ key, size }));
+
+		return {
+			used: entries.reduce((used, { size }) => used + size, 0),
+			quota: this._quota,
+			entries
+		};
+	}
+
+	// -----------------
+	// PRIVATE FUNCTIONS
+	// -----------------
+
+	/**
+	 * Runs a storage operation once the pending operations complete.
+	 * 
+	 * @param operation - The storage operation to run.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _enqueue(operation: () => Promise<void>): Promise<void> {
+
+		const result = this._writing.then(() => this._load()).then(operation);
+
+		this._writing = result.catch(() => undefined);
+
+		return result;
+	}
+
+	/**
+	 * Accounts for the values already in storage on first use, e.g. saved in an earlier session, retrying on the next use if it fails.
+	 * 
+	 * @returns Nothing.
+	 */
+	private _load(): Promise<void> {
+
+		if (!this._loading) {
+
+			this._loading = this._loadEntries().catch((err: unknown) => {
+
+				this._loading = undefined;
+
+				throw err;
+			});
+		}
+
+		return this._loading;
+	}
+
+	/**
+	 * Reads the values already in storage, to account for the values not read or saved through the wrapper yet.
+	 * 
+	 * @returns Nothing.
+	 */
+	private async _loadEntries(): Promise<void> {
+
+		for (const key of await this._storage.keys()) {
+
+			const value = await this._storage.get<unknown>(key);
+
+			if (!this._entries.has(key) && isDefined(value)) {
+				this._entries.set(key, this._createEntry(key, value));
+			}
+		}
+	}
+
+	/**
+	 * Sets a value in storage for the given key, evicting other values to make room for it.
+	 * 
+	 * @param key - The key under which to store the value.
+	 * @param value - The value to store.
+	 * 
+	 * @returns Nothing.
+	 */
+	private async _set(key: string, value: unknown): Promise<void> {
+
+		const entry = this._createEntry(key, value);
+
+		// Evict values until the value fits within the quota, ignoring the space used by the value it replaces.
+		if (this._quota !== undefined) {
+
+			if (entry.size > this._quota) {
+				throw new Error(`QuotaStorage - "${key}" requires ${entry.size} bytes, which exceeds the quota of ${this._quota} bytes.`);
+			}
+
+			let used = entry.size;
+
+			for (const [otherKey, { size }] of this._entries) {
+				used += otherKey !== key ? size : 0;
+			}
+
+			for (const victim of this._getEvictionOrder(key)) {
+
+				if (used <= this._quota) {
+					break;
+				}
+
+				used -= await this._evict(victim);
+			}
+		}
+
+		// Save the value, evicting a value each time the storage mechanism runs out of space, until there are no values left to evict.
+		for (;;) {
+
+			try {
+
+				await this._storage.set(key, value);
+
+				break;
+
+			} catch (err) {
+
+				const [victim] = this._getEvictionOrder(key);
+
+				if (!isQuotaExceededError(err) || victim === undefined) {
+					throw err;
+				}
+
+				await this._evict(victim);
+			}
+		}
+
+		this._entries.set(key, entry);
+	}
+
+	/**
+	 * Creates the details tracked about a value, marking it as recently used.
+	 * 
+	 * @param key - The key under which the value is stored.
+	 * @param value - The value.
+	 * 
+	 * @returns The details of the value.
+	 */
+	private _createEntry(key: string, value: unknown): QuotaEntry {
+
+		let envelope = value;
+
+		// Read the expiry time of values saved as strings, e.g. by properties with a serializer, from the deserialized value.
+		if (typeof value === 'string') {
+
+			try {
+				envelope = this._serializer.deserialize(value);
+			} catch (err) {
+				envelope = undefined;
+			}
+		}
+
+		return {
+			size: (key.length + this._serializer.serialize(value).length) * 2,
+			expiresAt: isStateEnvelope(envelope) ? envelope.$state.expiresAt ?? Infinity : Infinity,
+			accessedAt: ++this._clock
+		};
+	}
+
+	/**
+	 * Gets the keys of the values that may be evicted, in the order of the eviction policy.
+	 * 
+	 * @param exclude - The key of the value being saved, that may not be evicted.
+	 * 
+	 * @returns The keys, in the order to evict them.
+	 */
+	private _getEvictionOrder(exclude: string): string[] {
+
+		const candidates = Array.from(this._entries).filter(([key]) => key !== exclude);
+
+		const leastRecentlyUsed = (a: QuotaEntry, b: QuotaEntry): number => a.accessedAt - b.accessedAt;
+
+		switch (this._policy) {
+
+			case 'priority':
+				candidates.sort(([keyA, a], [keyB, b]) => (this._priority(keyA) - this._priority(keyB)) || leastRecentlyUsed(a, b));
+				break;
+
+			case 'expiry':
+				// Values without an expiry time never expire, thus are ordered last.
+				candidates.sort(([, a], [, b]) => (a.expiresAt === b.expiresAt ? 0 : a.expiresAt - b.expiresAt) || leastRecentlyUsed(a, b));
+				break;
+
+			default:
+				candidates.sort(([, a], [, b]) => leastRecentlyUsed(a, b));
+		}
+
+		return candidates.map(([key]) => key);
+	}
+
+	/**
+	 * Evicts a value from storage.
+	 * 
+	 * @param key - The key of the value to evict.
+	 * 
+	 * @returns The estimated number of bytes freed.
+	 */
+	private async _evict(key: string): Promise<number> {
+
+		const size = this._entries.get(key)?.size ?? 0;
+
+		await this._storage.remove(key);
+
+		this._entries.delete(key);
+
+		this._onEvict?.(key, size);
+
+		return size;
+	}
+}
\ No newline at end of file
@@ -1,9 +1,43 @@
+import { TaggedJsonSerializer } from '../serializers/TaggedJsonSerializer.js';
+import { Serializer } from '../types/Serializer.js';
 import { SyncStorage } from '../types/SyncStorage.js';
 
 /**
  * Storage class that allows for persisting data as JSON values for the duration of a browser session.
+ * 
+ * Values are serialized with the `TaggedJsonSerializer` by default, preserving e.g. Date, Map and Set values. A custom serializer can
+ * be provided by creating a new instance of the storage, e.g. `new SessionStorageImpl({ serializer: MySerializer })`.
  */
-class SessionStorageImpl implements SyncStorage {
+export class SessionStorageImpl implements SyncStorage {
+
+	// ----------
+	// PROPERTIES
+	// ----------
+
+	/**
+	 * The serializer to convert values to and from strings with.
+	 */
+	private _serializer: Serializer;
+
+	// ------------
+	// CONSTRUCTORS
+	// ------------
+
+	/**
+	 * Initializes the storage.
+	 * 
+	 * @param args - The storage arguments.
+	 * - serializer: The serializer to convert values to and from strings with, defaults to `TaggedJsonSerializer`.
+	 */
+	constructor({ serializer = TaggedJsonSerializer }: { serializer?: Serializer } = {}) {
+
+		// Set default storage values.
+		this._serializer = serializer;
+	}
+
+	// ----------------
+	// PUBLIC FUNCTIONS
+	// ----------------
 
 	/**
 	 * Gets a value from storage for the given key.
@@ -22,7 +56,7 @@ class SessionStorageImpl implements SyncStorage {
 				return undefined;
 			}
 
-			return JSON.parse(result) as T;
+			return this._serializer.deserialize<T>(result);
 
 		} catch (err) {
 
@@ -33,7 +67,8 @@ class SessionStorageImpl implements SyncStorage {
 	}
 
 	/** 
-	 * Sets a value in storage for the given key.
+	 * Sets a value in storage for the given key, failing if the value can not be saved, e.g. when storage runs out of space, so the write can be
+	 * retried rather than losing the value.
 	 * 
 	 * @param key - The key under which to store the value.
 	 * @param value - The value to store.
@@ -42,14 +77,7 @@ class SessionStorageImpl implements SyncStorage {
 	 */
 	set(key: string, value: unknown): void {
 
-		try {
-
-			window.sessionStorage.setItem(key, JSON.stringify(value));
-
-		} catch (err) {
-
-			console.error(err);
-		}
+		window.sessionStorage.setItem(key, this._serializer.serialize(value));
 	}
 
 	/**
@@ -61,14 +89,7 @@ class SessionStorageImpl implements SyncStorage {
 	 */
 	remove(key: string): void {
 
-		try {
-
-			window.sessionStorage.removeItem(key);
-
-		} catch (err) {
-
-			console.error(err);
-		}
+		window.sessionStorage.removeItem(key);
 	}
 
 	/**
@@ -78,14 +99,7 @@ class SessionStorageImpl implements SyncStorage {
 	 */
 	clear(): void {
 
-		try {
-
-			window.sessionStorage.clear();
-
-		} catch (err) {
-
-			console.error(err);
-		}
+		window.sessionStorage.clear();
 	}
 
 	/**
@@ -0,0 +1,80 @@
+import ts from 'typescript';
+import { setFlagsFromString } from 'v8';
+import { runInNewContext } from 'vm';
+
+import type { StorageChange, StorageChangeHandler } from './types.js';
+import type { ObservableStorage } from './types/ObservableStorage.js';
+import { MemoryStorage } from './stores/MemoryStorage.js';
+
+/**
+ * In-memory storage that can simulate changes made to storage by another browser tab.
+ */
+export class ObservableMemoryStorage extends MemoryStorage implements ObservableStorage {
+
+	subscribers: StorageChangeHandler[] = [];
+
+	subscribe(handler: StorageChangeHandler): void {
+		this.subscribers.push(handler);
+	}
+
+	unsubscribe(handler: StorageChangeHandler): void {
+		this.subscribers = this.subscribers.filter(subscriber => subscriber !== handler);
+	}
+
+	changeExternally(change: StorageChange): void {
+
+		if (change.key === undefined) {
+			this.clear();
+		} else {
+			this.set(change.key, change.value);
+		}
+
+		this.subscribers.forEach(subscriber => subscriber(change));
+	}
+}
+
+/**
+ * Compiles a decorated class, as the test runner only supports the experimental decorators the project is configured with. The source
+ * must declare a class named `Subject`, and may refer to the given variables.
+ * 
+ * Stage 3 decorators define class fields, while experimental decorators assign class fields rather than defining them, as the decorated
+ * properties are replaced by class fields that are defined on the instance.
+ * 
+ * @param source - The TypeScript source of the class.
+ * @param scope - The variables the class refers to, keyed by name.
+ * @param experimentalDecorators - Whether to compile the class with experimental decorators instead of Stage 3 decorators, defaults to false.
+ * 
+ * @returns The compiled class.
+ */
+export function compileClass<T>(source: string, scope: Record<string, unknown>, experimentalDecorators: boolean = false): T {
+
+	const { outputText } = ts.transpileModule(source, {
+		compilerOptions: { target: ts.ScriptTarget.ES2022, experimentalDecorators, useDefineForClassFields: !experimentalDecorators }
+	});
+
+	// eslint-disable-next-line @typescript-eslint/no-implied-eval
+	const factory = new Function(...Object.keys(scope), `${outputText}\nreturn Subject;`) as (...args: unknown[]) => T;
+
+	return factory(...Object.values(scope));
+}
+
+/**
+ * Runs garbage collection until a condition is met, allowing finalizers to run in between.
+ * 
+ * @param condition - The function that checks whether the condition is met.
+ * 
+ * @returns Nothing.
+ */
+export async function collectGarbage(condition: () => boolean): Promise<void> {
+
+	setFlagsFromString('--expose_gc');
+
+	const gc = runInNewContext('gc') as () => void;
+
+	for (let attempt = 0; attempt < 20 && !condition(); attempt++) {
+
+		gc();
+
+		await new Promise(resolve => setTimeout(resolve, 10));
+	}
+}
\ No newline at end of file
@@ -1,18 +1,370 @@
+import type { AsyncStorage } from './types/AsyncStorage.js';
+import type { Serializer } from './types/Serializer.js';
+import type { StandardSchema, StandardSchemaIssue } from './types/StandardSchema.js';
+import type { SyncStorage } from './types/SyncStorage.js';
+
+/**
+ * The source of a property value change, i.e.:
+ *   1) set - the value was set by the app,
+ *   2) storage-restore - the value was restored from storage when the property was initialized,
+ *   3) remote - the value was changed from outside of the app, e.g. by another browser tab, or
+ *   4) subscribe - the current value was emitted to a new subscriber, registered with the `immediate` option.
+ */
+export type PropertyChangeSource = 'set' | 'storage-restore' | 'remote' | 'subscribe';
+
+/**
+ * The details of a property value change.
+ */
+export type PropertyChange<T> = {
+
+	/**
+	 * The new property value.
+	 */
+	value: T;
+
+	/**
+	 * The property value before the change.
+	 */
+	previous: T;
+
+	/**
+	 * The source of the change.
+	 */
+	source: PropertyChangeSource;
+};
+
 /**
  * The subscriber function to call whenever the property value changes.
  * 
  * @param value - The new property value.
+ * @param change - The details of the change, including the previous property value and the source of the change.
+ * 
+ * @returns Nothing.
+ */
+export type PropertyChangeHandler<T> = (value: T, change: PropertyChange<T>) => void;
+
+/**
+ * The subscriber function to call whenever the selected slice of the property value changes.
+ * 
+ * @param slice - The new selected slice of the property value.
+ * @param change - The details of the change, including the previous property value and the source of the change.
  * 
  * @returns Nothing.
  */
-export type PropertyChangeHandler<T> = (value: T) => void;
+export type PropertySelectHandler<T, S> = (slice: S, change: PropertyChange<T>) => void;
+
+/**
+ * Options to observe a slice of a property value, only notifying the subscriber when the selected slice changes.
+ */
+export type PropertySelectOptions<T, S> = {
+
+	/**
+	 * The function to select the observed slice of the property value with.
+	 */
+	select: (value: T) => S;
+
+	/**
+	 * The function to compare the previous and new selected slice with, defaults to a shallow equality check.
+	 */
+	equals?: (a: S, b: S) => boolean;
+};
+
+/**
+ * Options that control the lifetime of a subscriber.
+ */
+export type PropertySubscribeOptions = {
+
+	/**
+	 * The signal to unsubscribe the subscriber with when aborted, e.g. when a component is removed.
+	 */
+	signal?: AbortSignal;
+
+	/**
+	 * Whether to unsubscribe the subscriber after it is notified once, defaults to false.
+	 */
+	once?: boolean;
+
+	/**
+	 * Whether to notify the subscriber of the current property value when subscribed, defaults to false.
+	 */
+	immediate?: boolean;
+};
 
 /**
- * The function to call whenever a property value is set, allowing for modification of the current
+ * How a property protects its value from being modified by reference, i.e.:
+ *   1) freeze - the stored value, and the values emitted to subscribers, are deep frozen, thus modifications throw in strict mode,
+ *   2) copy - `get()` returns a copy of the stored value, thus modifications are discarded, or
+ *   3) false - `get()` returns the stored value as is.
+ */
+export type ImmutableMode = 'freeze' | 'copy' | false;
+
+/**
+ * The function to call whenever a property value is set, allowing for modification of a draft of the current
  * property value instead of overriding it completely.
  * 
- * @param value - The current property value.
+ * @param draft - The draft of the current property value, or undefined if the property value is not set.
+ * 
+ * @returns Nothing, or a replacement value, e.g. for primitive property values that can not be modified.
+ */
+export type PropertySetHandler<T> = (draft: T | undefined) => T | void;
+
+/**
+ * The functions to migrate a persisted value from one version to the next, keyed by the version they migrate from.
+ * 
+ * E.g. the function under key `1` receives a version 1 value, and returns the version 2 value.
+ */
+export type StateMigrations = { [fromVersion: number]: (value: any) => unknown }; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+/**
+ * The validator to check values restored from storage with, either a type guard function or a Standard Schema compatible validator, e.g. a Zod or Valibot schema.
+ */
+export type StateValidator<T> = ((value: unknown) => value is T) | ((value: unknown) => boolean) | StandardSchema<T>;
+
+/**
+ * Options that control how often a property value is written to storage, coalescing the values set in between into a single write.
+ */
+export type StatePersistOptions = {
+
+	/**
+	 * The time in milliseconds to wait after the value was last set before writing it to storage, if any.
+	 */
+	debounce?: number;
+
+	/**
+	 * The minimum time in milliseconds between writes to storage, if any. When combined with `debounce`, the maximum time to wait
+	 * before writing a value that keeps changing.
+	 */
+	throttle?: number;
+};
+
+/**
+ * Options that control how a property value is persisted to and restored from storage.
+ */
+export type StateOptions<T> = {
+
+	/**
+	 * The serializer to convert the value to and from a string with before saving it in storage, if any.
+	 */
+	serializer?: Serializer;
+
+	/**
+	 * The version of the value shape, recorded with the value in storage. Values stored without a version are treated as version 0.
+	 */
+	version?: number;
+
+	/**
+	 * The functions to migrate a value restored from storage step by step to the current version.
+	 */
+	migrations?: StateMigrations;
+
+	/**
+	 * The function to call when a value restored from storage can not be migrated to the current version, e.g. when a migration is
+	 * missing or fails. The value is discarded from storage, unless a replacement value is returned.
+	 * 
+	 * @param value - The value restored from storage.
+	 * @param version - The version of the value restored from storage.
+	 * 
+	 * @returns The replacement value, or undefined to discard the value.
+	 */
+	onMigrationFailure?: (value: unknown, version: number) => T | undefined;
+
+	/**
+	 * The time in milliseconds a value remains valid in storage after it is set. Expired values are treated as missing when restored, and removed from storage.
+	 */
+	ttl?: number;
+
+	/**
+	 * The time a value expires at in storage, as a Date or milliseconds since the epoch. Takes precedence over `ttl`.
+	 */
+	expiresAt?: Date | number;
+
+	/**
+	 * The validator to check values restored from storage with. Invalid values are discarded from storage, leaving the property at its initial value.
+	 * Values validated by an asynchronous schema are restored once the validation completes, even from synchronous storage.
+	 */
+	validate?: StateValidator<T>;
+
+	/**
+	 * The function to call when a value restored from storage is rejected by the validator, defaults to logging the problems to the console.
+	 * 
+	 * @param value - The rejected value.
+	 * @param issues - The problems found with the value.
+	 * 
+	 * @returns Nothing.
+	 */
+	onValidationFailure?: (value: unknown, issues: ReadonlyArray<StandardSchemaIssue>) => void;
+
+	/**
+	 * How often to write the value to storage, e.g. to avoid writing on every keystroke of a bound text input. Writes are written
+	 * immediately if not set, and pending writes are flushed when the page is hidden.
+	 */
+	persist?: StatePersistOptions;
+};
+
+/**
+ * The envelope a property value is saved in, recording details about the value alongside it in storage.
+ */
+export type StateEnvelope<T> = {
+
+	/**
+	 * The details recorded about the value.
+	 */
+	$state: {
+
+		/**
+		 * The version of the value shape.
+		 */
+		version?: number;
+
+		/**
+		 * The time the value expires at, in milliseconds since the epoch.
+		 */
+		expiresAt?: number;
+	};
+
+	/**
+	 * The property value.
+	 */
+	value: T;
+};
+
+/**
+ * The outcome of restoring a property value from asynchronous storage.
+ */
+export type StateLoadResult = {
+
+	/**
+	 * Whether the value was read, or the read failed.
+	 */
+	status: 'fulfilled' | 'rejected';
+
+	/**
+	 * The value read from storage, if the read succeeded.
+	 */
+	value?: unknown;
+
+	/**
+	 * The reason the read failed, if it failed.
+	 */
+	reason?: unknown;
+};
+
+/**
+ * The key to save a property value under in storage, or a function that returns the key for a given class instance.
+ * 
+ * @param instance - The class instance the property belongs to.
+ * 
+ * @returns The storage key.
+ */
+export type StateKey<This> = string | ((instance: This) => string);
+
+/**
+ * A change made to a storage mechanism from outside of the app, e.g. by another browser tab.
+ */
+export type StorageChange = {
+
+	/**
+	 * The key of the changed value, or undefined if all values were cleared from storage.
+	 */
+	key?: string;
+
+	/**
+	 * The new value stored under the key, or undefined if the value was removed.
+	 */
+	value?: unknown;
+
+	/**
+	 * Whether the change re-hydrates properties with the values of another context, e.g. when the namespace of a NamespacedStorage is
+	 * switched, in which case it also applies to properties that do not follow changes made from outside of the app.
+	 */
+	rehydrate?: boolean;
+};
+
+/**
+ * The subscriber function to call whenever a storage mechanism is changed from outside of the app.
+ * 
+ * @param change - The storage change.
  * 
  * @returns Nothing.
  */
-export type PropertySetHandler<T> = (value: NonNullable<T>) => void;
\ No newline at end of file
+export type StorageChangeHandler = (change: StorageChange) => void;
+
+/**
+ * A value that could not be saved into, or removed from, storage, after retrying.
+ */
+export type StorageWriteError = {
+
+	/**
+	 * The storage mechanism the value could not be saved into.
+	 */
+	storage: SyncStorage | AsyncStorage;
+
+	/**
+	 * The key the value could not be saved under.
+	 */
+	key: string;
+
+	/**
+	 * The error of the last attempt to save the value.
+	 */
+	error: unknown;
+
+	/**
+	 * The number of attempts made to save the value.
+	 */
+	attempts: number;
+};
+
+/**
+ * The subscriber function to call whenever a value could not be saved into, or removed from, storage.
+ * 
+ * @param error - The details of the failed write.
+ * 
+ * @returns Nothing.
+ */
+export type StorageWriteErrorHandler = (error: StorageWriteError) => void;
+
+/**
+ * Options that control how failed storage writes are retried.
+ */
+export type StorageWriteRetry = {
+
+	/**
+	 * The number of times to retry a failed write, before reporting it as an error.
+	 */
+	retries: number;
+
+	/**
+	 * The time in milliseconds to wait before the first retry, doubled for each following retry.
+	 */
+	delay: number;
+};
+
+/**
+ * The order in which QuotaStorage evicts values to make room for new values:
+ *   1) "lru" evicts the least recently read or written values first
+ *   2) "priority" evicts the values with the lowest priority first, then the least recently used
+ *   3) "expiry" evicts the values that expire soonest first, then values without an expiry time, least recently used first
+ */
+export type StorageEvictionPolicy = 'lru' | 'priority' | 'expiry';
+
+/**
+ * The estimated space used by the values in a QuotaStorage.
+ */
+export type StorageUsage = {
+
+	/**
+	 * The estimated number of bytes used by all values, including their keys.
+	 */
+	used: number;
+
+	/**
+	 * The number of bytes the values may use, if limited.
+	 */
+	quota?: number;
+
+	/**
+	 * The estimated number of bytes used by each value, including its key.
+	 */
+	entries: { key: string, size: number }[];
+};
\ No newline at end of file
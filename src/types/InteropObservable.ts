@@ -0,0 +1,47 @@
+/**
+ * An observer of an interop observable, notified of each new value.
+ */
+export interface InteropObserver<T> {
+
+	/**
+	 * Receives the next value.
+	 * 
+	 * @param value - The new value.
+	 * 
+	 * @returns Nothing.
+	 */
+	next?(value: T): void;
+
+	/**
+	 * Receives an error, not emitted by properties, and included for compatibility with Observable libraries.
+	 * 
+	 * @param error - The error.
+	 * 
+	 * @returns Nothing.
+	 */
+	error?(error: unknown): void;
+
+	/**
+	 * Receives the completion of the observable, not emitted by properties, and included for compatibility with Observable libraries.
+	 * 
+	 * @returns Nothing.
+	 */
+	complete?(): void;
+}
+
+/**
+ * A minimal Observable, as proposed to TC39, allowing properties to be consumed by Observable libraries, e.g. with `from(property)` in RxJS.
+ * 
+ * More info here: https://github.com/tc39/proposal-observable
+ */
+export interface InteropObservable<T> {
+
+	/**
+	 * Registers an observer to be notified of each new value.
+	 * 
+	 * @param observer - The observer, or the function to call with each new value.
+	 * 
+	 * @returns The subscription, to unsubscribe the observer with.
+	 */
+	subscribe(observer: InteropObserver<T> | ((value: T) => void)): { unsubscribe(): void };
+}
\ No newline at end of file
@@ -0,0 +1,25 @@
+import type { StorageChangeHandler } from '../types.js';
+
+/**
+ * Interface implemented by storage mechanisms that can notify subscribers of changes made to storage from outside of the app, e.g. by another browser tab.
+ */
+export interface ObservableStorage {
+
+	/**
+	 * Registers a subscriber to listen for storage changes.
+	 * 
+	 * @param handler - The function to call when storage changes.
+	 * 
+	 * @returns Nothing.
+	 */
+	subscribe(handler: StorageChangeHandler): void;
+
+	/**
+	 * Removes a registered storage change subscriber.
+	 * 
+	 * @param handler - The function to call when storage changes.
+	 * 
+	 * @returns Nothing.
+	 */
+	unsubscribe(handler: StorageChangeHandler): void;
+}
\ No newline at end of file
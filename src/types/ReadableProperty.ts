@@ -0,0 +1,51 @@
+import type { PropertyChangeHandler, PropertySelectHandler, PropertySelectOptions, PropertySubscribeOptions } from '../types.js';
+import type { Subscription } from './Subscription.js';
+
+/**
+ * Interface implemented by properties whose value can be read and observed, e.g. ObservableProperty, StatefulProperty and ComputedProperty.
+ */
+export interface ReadableProperty<T> {
+
+	/**
+	 * Check if the property value is set.
+	 * 
+	 * @returns True if the value is set, otherwise false.
+	 */
+	exists(): boolean;
+
+	/**
+	 * Get the property value.
+	 * 
+	 * @returns The property value.
+	 */
+	get(): T;
+
+	/**
+	 * Registers a subscriber to listen for property value changes.
+	 * 
+	 * @param handler - The function to call when the property value changes.
+	 * @param options - The subscriber options.
+	 * 
+	 * @returns The subscription, which can be called or disposed to unsubscribe the subscriber.
+	 */
+	subscribe(handler: PropertyChangeHandler<T>, options?: PropertySubscribeOptions): Subscription;
+
+	/**
+	 * Registers a subscriber to listen for changes to a slice of the property value.
+	 * 
+	 * @param handler - The function to call when the selected slice of the property value changes.
+	 * @param options - The options to select the observed slice of the property value with, and the subscriber options.
+	 * 
+	 * @returns The subscription, which can be called or disposed to unsubscribe the subscriber.
+	 */
+	subscribe<S>(handler: PropertySelectHandler<T, S>, options: PropertySelectOptions<T, S> & PropertySubscribeOptions): Subscription;
+
+	/**
+	 * Removes a registered property value change subscriber.
+	 * 
+	 * @param handler - The function to call when the property value changes.
+	 * 
+	 * @returns Nothing.
+	 */
+	unsubscribe(handler: PropertyChangeHandler<T> | PropertySelectHandler<T, never>): void;
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+/**
+ * Interface to convert values to and from a string representation, e.g. to persist values in string based storage mechanisms.
+ */
+export interface Serializer {
+
+	/**
+	 * Converts a value into its string representation.
+	 * 
+	 * @param value - The value to convert.
+	 * 
+	 * @returns The string representation of the value.
+	 */
+	serialize(value: unknown): string;
+
+	/**
+	 * Converts a string representation back into its value.
+	 * 
+	 * @param text - The string representation to convert.
+	 * 
+	 * @returns The value.
+	 */
+	deserialize<T>(text: string): T;
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+/**
+ * A single problem found when validating a value against a schema.
+ */
+export interface StandardSchemaIssue {
+
+	/**
+	 * The description of the problem.
+	 */
+	readonly message: string;
+
+	/**
+	 * The path to the invalid part of the value, if any.
+	 */
+	readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * The outcome of validating a value against a schema, i.e. either the validated value or the problems found.
+ */
+export type StandardSchemaResult<T> = { readonly value: T; readonly issues?: undefined } | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * Interface implemented by schema libraries that follow the Standard Schema specification, e.g. Zod, Valibot and ArkType.
+ * 
+ * More info here: https://standardschema.dev
+ */
+export interface StandardSchema<T> {
+
+	/**
+	 * The Standard Schema properties.
+	 */
+	readonly '~standard': {
+
+		/**
+		 * The version of the Standard Schema specification implemented.
+		 */
+		readonly version: 1;
+
+		/**
+		 * The name of the schema library.
+		 */
+		readonly vendor: string;
+
+		/**
+		 * Validates a value against the schema.
+		 * 
+		 * @param value - The value to validate.
+		 * 
+		 * @returns The validated value, or the problems found.
+		 */
+		readonly validate: (value: unknown) => StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+	};
+}
\ No newline at end of file
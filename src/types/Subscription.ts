@@ -0,0 +1,34 @@
+declare global {
+
+	/**
+	 * Interface of objects that release their resources when disposed, e.g. with a `using` declaration. Declared empty to support
+	 * TypeScript versions without explicit resource management, and merged with the built-in declaration in later versions.
+	 */
+	interface Disposable { } // eslint-disable-line @typescript-eslint/no-empty-interface
+}
+
+/**
+ * The handle of a registered subscriber, which can be called to unsubscribe the subscriber, or disposed with a `using` declaration.
+ * 
+ * ```js
+ * const unsubscribe = property.subscribe(value => console.log(value));
+ * 
+ * unsubscribe();
+ * ```
+ */
+export type Subscription = Disposable & {
+
+	/**
+	 * Unsubscribes the subscriber.
+	 * 
+	 * @returns Nothing.
+	 */
+	(): void;
+
+	/**
+	 * Unsubscribes the subscriber.
+	 * 
+	 * @returns Nothing.
+	 */
+	unsubscribe(): void;
+};
\ No newline at end of file
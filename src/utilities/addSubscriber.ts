@@ -0,0 +1,67 @@
+import type { ImmutableMode, PropertyChange, PropertySelectOptions, PropertySubscribeOptions } from '../types.js';
+import type { Subscription } from '../types/Subscription.js';
+import { createSubscription } from './createSubscription.js';
+import { deepCopy } from './deepCopy.js';
+import { deepFreeze } from './deepFreeze.js';
+import { notifySubscriber, PropertySubscriber } from './notifySubscribers.js';
+
+/**
+ * Registers a subscriber on a property.
+ * 
+ * @param subscribers - The subscribers of the property, to add the subscriber to.
+ * @param handler - The function to call when the property value, or the selected slice of it, changes.
+ * @param options - The subscriber options.
+ * @param currentValue - The current property value.
+ * @param immutable - The immutable mode of the property, emitting a frozen value in the "freeze" mode, defaults to false.
+ * 
+ * @returns The subscription, to unsubscribe the subscriber with.
+ */
+export function addSubscriber<T>(
+	subscribers: PropertySubscriber<T>[],
+	handler: PropertySubscriber<T>['handler'],
+	{ select, equals, signal, once, immediate }: Partial<PropertySelectOptions<T, unknown>> & PropertySubscribeOptions,
+	currentValue: T,
+	immutable: ImmutableMode = false
+): Subscription {
+
+	const value = immutable === 'freeze' ? deepFreeze(currentValue as object) as T : deepCopy(currentValue) as T;
+
+	const subscriber: PropertySubscriber<T> = {
+		handler,
+		select,
+		equals,
+		slice: select?.(value),
+		once,
+		unsubscribe: (): void => {
+
+			const index = subscribers.indexOf(subscriber);
+
+			if (index >= 0) {
+				subscribers.splice(index, 1);
+			}
+
+			signal?.removeEventListener('abort', subscriber.unsubscribe);
+		}
+	};
+
+	const subscription = createSubscription(subscriber.unsubscribe);
+
+	// Subscribers registered with an aborted signal are never notified.
+	if (signal?.aborted) {
+		return subscription;
+	}
+
+	signal?.addEventListener('abort', subscriber.unsubscribe, { once: true });
+
+	subscribers.push(subscriber);
+
+	// Notify the subscriber of the current property value.
+	if (immediate) {
+
+		const change: PropertyChange<T> = { value, previous: immutable === 'freeze' ? value : deepCopy(currentValue) as T, source: 'subscribe' };
+
+		notifySubscriber(subscriber, select ? subscriber.slice : value, change);
+	}
+
+	return subscription;
+}
\ No newline at end of file
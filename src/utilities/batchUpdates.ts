@@ -0,0 +1,181 @@
+/**
+ * The updates deferred by a running batch, until the batch completes.
+ */
+type Batch = {
+
+	/**
+	 * The storage writes to perform, keyed by the property that scheduled them, keeping only the last write of each property.
+	 */
+	writes: Map<object, () => void>;
+
+	/**
+	 * The subscriber notifications to send, keyed by the property that scheduled them, keeping only the last notification of each property.
+	 */
+	notifications: Map<object, () => void>;
+
+	/**
+	 * The functions to restore the value of each property changed in the batch to its value from before the batch.
+	 */
+	rollbacks: Map<object, () => void>;
+
+	/**
+	 * Whether to restore the values of all properties changed in the batch, and discard their deferred updates, if the batch fails.
+	 */
+	rollback: boolean;
+};
+
+/**
+ * The stack of running batches, with the innermost batch last.
+ */
+const _batches: Batch[] = [];
+
+/**
+ * Merges the updates of a completed nested batch into its parent batch.
+ * 
+ * @param batch - The completed nested batch.
+ * @param parent - The batch the nested batch was started in.
+ * 
+ * @returns Nothing.
+ */
+function mergeBatch(batch: Batch, parent: Batch): void {
+
+	batch.writes.forEach((write, target) => {
+		parent.writes.delete(target);
+		parent.writes.set(target, write);
+	});
+
+	batch.notifications.forEach((notify, target) => parent.notifications.set(target, notify));
+
+	// Keep the earliest restore function of each property, i.e. the value from before the parent batch changed it.
+	batch.rollbacks.forEach((restore, target) => {
+
+		if (!parent.rollbacks.has(target)) {
+			parent.rollbacks.set(target, restore);
+		}
+	});
+}
+
+/**
+ * Runs a function as a batch, deferring the storage writes and subscriber notifications of all properties set within the function
+ * until it completes. Batches started within another batch are merged into the outer batch when they complete.
+ * 
+ * @param callback - The function to run.
+ * @param rollback - Whether to restore the values of all properties set within the function, and discard their storage writes and notifications, if the function throws.
+ * 
+ * @returns The result of the function.
+ */
+export function runBatch<R>(callback: () => R, rollback: boolean): R {
+
+	const batch: Batch = { writes: new Map(), notifications: new Map(), rollbacks: new Map(), rollback };
+
+	_batches.push(batch);
+
+	let result: R;
+
+	try {
+
+		result = callback();
+
+	} catch (err) {
+
+		_batches.pop();
+
+		if (batch.rollback) {
+
+			// Restore the property values in reverse order, and discard the deferred updates.
+			Array.from(batch.rollbacks.values()).reverse().forEach(restore => restore());
+
+		} else {
+
+			completeBatch(batch);
+		}
+
+		throw err;
+	}
+
+	_batches.pop();
+
+	completeBatch(batch);
+
+	return result;
+}
+
+/**
+ * Completes a batch, by merging it into its parent batch if nested, or otherwise by performing its deferred updates.
+ * 
+ * @param batch - The batch to complete.
+ * 
+ * @returns Nothing.
+ */
+function completeBatch(batch: Batch): void {
+
+	const parent = _batches[_batches.length - 1];
+
+	if (parent) {
+		mergeBatch(batch, parent);
+		return;
+	}
+
+	// Write the new values into storage before notifying subscribers, allowing subscribers to read the new values from storage.
+	batch.writes.forEach(write => write());
+	batch.notifications.forEach(notify => notify());
+}
+
+/**
+ * Writes a property value into storage, or defers the write until the running batch completes.
+ * 
+ * @param target - The property that is written, only its last write within a batch is performed.
+ * @param write - The function that writes the property value into storage.
+ * 
+ * @returns Nothing.
+ */
+export function scheduleWrite(target: object, write: () => void): void {
+
+	const batch = _batches[_batches.length - 1];
+
+	if (!batch) {
+		write();
+		return;
+	}
+
+	batch.writes.delete(target);
+	batch.writes.set(target, write);
+}
+
+/**
+ * Notifies the subscribers of a property, or defers the notification until the running batch completes.
+ * 
+ * @param target - The property whose subscribers are notified, only its last notification within a batch is sent.
+ * @param notify - The function that notifies the subscribers.
+ * 
+ * @returns Nothing.
+ */
+export function scheduleNotification(target: object, notify: () => void): void {
+
+	const batch = _batches[_batches.length - 1];
+
+	if (!batch) {
+		notify();
+		return;
+	}
+
+	batch.notifications.set(target, notify);
+}
+
+/**
+ * Records the value of a property before it is first changed in the running batch, to restore it in case the batch rolls back.
+ * 
+ * @param target - The property that is changed.
+ * @param capture - The function that captures the current property value, returning the function that restores it. Only called when the value needs to be recorded.
+ * 
+ * @returns Nothing.
+ */
+export function recordRollback(target: object, capture: () => () => void): void {
+
+	const batch = _batches[_batches.length - 1];
+
+	// Only record values when the running batch, or any batch it is nested in, can roll back.
+	if (batch && !batch.rollbacks.has(target) && _batches.some(({ rollback }) => rollback)) {
+		batch.rollbacks.set(target, capture());
+	}
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import type { Subscription } from '../types/Subscription.js';
+
+/**
+ * Creates a subscription, which can be called, unsubscribed or disposed to unsubscribe a subscriber.
+ * 
+ * @param unsubscribe - The function to unsubscribe the subscriber with.
+ * 
+ * @returns The subscription.
+ */
+export function createSubscription(unsubscribe: () => void): Subscription {
+
+	const subscription = Object.assign(() => unsubscribe(), { unsubscribe }) as Subscription;
+
+	// Allow the subscription to be disposed with a `using` declaration, where supported.
+	const disposeSymbol = (Symbol as { dispose?: symbol }).dispose;
+
+	if (disposeSymbol) {
+		Object.defineProperty(subscription, disposeSymbol, { value: unsubscribe });
+	}
+
+	return subscription;
+}
\ No newline at end of file
@@ -0,0 +1,185 @@
+import type { StateOptions } from '../types.js';
+import type { StandardSchemaResult } from '../types/StandardSchema.js';
+import { isDefined } from './isDefined.js';
+import { isPromise } from './isPromise.js';
+import { isStateEnvelope } from './isStateEnvelope.js';
+import { isStateExpired } from './isStateExpired.js';
+import { validateState } from './validateState.js';
+
+/**
+ * The outcome of converting a value read from storage back into a property value.
+ */
+export type DecodedState<T> = {
+
+	/**
+	 * The property value, or undefined if no usable value was stored.
+	 */
+	value: T | undefined;
+
+	/**
+	 * The action to take on the value in storage, i.e. to keep it as is, to replace it with the decoded value, or to remove it.
+	 */
+	action: 'keep' | 'update' | 'remove';
+
+	/**
+	 * The time the value in storage expires at, in milliseconds since the epoch, if any, to keep when the value is updated.
+	 */
+	expiresAt?: number;
+};
+
+/**
+ * Migrates a value read from storage step by step to the current version.
+ * 
+ * @param value - The value read from storage, unwrapped from its envelope.
+ * @param storedVersion - The version of the value read from storage.
+ * @param options - The options that control how the value is persisted.
+ * 
+ * @returns The migrated value, and the action to take on the value in storage.
+ */
+function migrateState<T>(value: unknown, storedVersion: number, options: StateOptions<T>): DecodedState<T> {
+
+	if (!isDefined(options.version) || storedVersion === options.version) {
+		return { value: value as T, action: 'keep' };
+	}
+
+	const version = options.version as number;
+	let migratedValue = value;
+
+	try {
+
+		if (storedVersion > version) {
+			throw new Error(`decodeState - unable to migrate a value from version ${storedVersion} to older version ${version}.`);
+		}
+
+		for (let fromVersion = storedVersion; fromVersion < version; fromVersion++) {
+
+			const migration = options.migrations?.[fromVersion];
+
+			if (!migration) {
+				throw new Error(`decodeState - no migration available from version ${fromVersion} to version ${fromVersion + 1}.`);
+			}
+
+			migratedValue = migration(migratedValue);
+		}
+
+	} catch (err) {
+
+		// Discard the value, unless the migration failure handler provides a replacement value.
+		if (!options.onMigrationFailure) {
+
+			console.error(err);
+
+			return { value: undefined, action: 'remove' };
+		}
+
+		const replacementValue = options.onMigrationFailure(value, storedVersion);
+
+		return isDefined(replacementValue) ? { value: replacementValue, action: 'update' } : { value: undefined, action: 'remove' };
+	}
+
+	return { value: migratedValue as T, action: 'update' };
+}
+
+/**
+ * Converts a value read from storage back into a property value, deserializing, unwrapping and migrating it to the current version.
+ * 
+ * @param storageValue - The value read from storage.
+ * @param options - The options that control how the value is persisted.
+ * 
+ * @returns The property value before validation, and the action to take on the value in storage.
+ */
+function unwrapState<T>(storageValue: unknown, options: StateOptions<T>): DecodedState<T> {
+
+	if (!isDefined(storageValue)) {
+		return { value: undefined, action: 'keep' };
+	}
+
+	let value = storageValue;
+
+	// Convert the value from a string. Values that were not serialized, e.g. saved before a serializer was configured, are used as is.
+	if (options.serializer && typeof value === 'string') {
+
+		try {
+
+			value = options.serializer.deserialize(value);
+
+		} catch (err) {
+
+			console.error(err);
+
+			return { value: undefined, action: 'keep' };
+		}
+	}
+
+	// Unwrap the value from its envelope, values saved without an envelope are treated as version 0.
+	let storedVersion = 0;
+	let expiresAt: number | undefined;
+
+	if (isStateEnvelope(value)) {
+
+		// Treat expired values as missing.
+		if (isStateExpired(value)) {
+			return { value: undefined, action: 'remove' };
+		}
+
+		storedVersion = value.$state.version ?? 0;
+		expiresAt = value.$state.expiresAt;
+		value = value.value;
+	}
+
+	return { ...migrateState<T>(value, storedVersion, options), expiresAt };
+}
+
+/**
+ * Rejects values that failed validation, e.g. values modified by hand or saved by an older release without a migration.
+ * 
+ * @param decoded - The property value before validation, and the action to take on the value in storage.
+ * @param result - The outcome of the validation.
+ * @param options - The options that control how the value is persisted.
+ * 
+ * @returns The validated property value, and the action to take on the value in storage.
+ */
+function applyValidation<T>(decoded: DecodedState<T>, result: StandardSchemaResult<T>, options: StateOptions<T>): DecodedState<T> {
+
+	if (result.issues) {
+
+		if (options.onValidationFailure) {
+			options.onValidationFailure(decoded.value, result.issues);
+		} else {
+			console.error(`decodeState - the value restored from storage is invalid.`, result.issues);
+		}
+
+		return { value: undefined, action: 'remove' };
+	}
+
+	return { value: result.value, action: decoded.action, expiresAt: decoded.expiresAt };
+}
+
+/**
+ * Converts a value read from storage back into a property value, deserializing, migrating it to the current version and validating
+ * it if configured.
+ * 
+ * Asynchronous schemas can not validate the value without waiting, thus the outcome is returned as a promise once the schema
+ * completes the validation.
+ * 
+ * @param storageValue - The value read from storage.
+ * @param options - The options that control how the value is persisted.
+ * 
+ * @returns The property value, and the action to take on the value in storage, as a promise for asynchronous schemas.
+ */
+export function decodeState<T>(storageValue: unknown, options: StateOptions<T> = {}): DecodedState<T> | Promise<DecodedState<T>> {
+
+	const decoded = unwrapState(storageValue, options);
+
+	if (!options.validate || !isDefined(decoded.value)) {
+		return decoded;
+	}
+
+	const result = validateState(decoded.value, options.validate);
+
+	if (isPromise(result)) {
+		return (result as Promise<StandardSchemaResult<T>>).then((asyncResult) => applyValidation(decoded, asyncResult, options));
+	}
+
+	return applyValidation(decoded, result as StandardSchemaResult<T>, options);
+}
\ No newline at end of file
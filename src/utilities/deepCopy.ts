@@ -1,7 +1,7 @@
-// Check if the Structured Clone API is available in the browser.
+// Check if the Structured Clone API is available in the browser, guarding against environments without a window, e.g. server-side rendering.
 let useStructuredClone = false;
 
-if (window['structuredClone']) {
+if (typeof globalThis.structuredClone === 'function') {
 	useStructuredClone = true;
 }
 
@@ -0,0 +1,57 @@
+/**
+ * Determine if two values are structurally equal, comparing nested object, array, Date, Map and Set values by their contents.
+ * 
+ * @param a - The first value to compare.
+ * @param b - The second value to compare.
+ * 
+ * @returns True if the values are structurally equal, otherwise false.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+
+	// Compare primitives and references, treating NaN as equal to itself.
+	if (Object.is(a, b)) {
+		return true;
+	}
+
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+		return false;
+	}
+
+	if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+		return false;
+	}
+
+	if (a instanceof Date) {
+		return Object.is(a.getTime(), (b as Date).getTime());
+	}
+
+	if (a instanceof RegExp) {
+		return a.source === (b as RegExp).source && a.flags === (b as RegExp).flags;
+	}
+
+	if (a instanceof Map) {
+
+		const other = b as Map<unknown, unknown>;
+
+		return a.size === other.size && Array.from(a.entries()).every(([key, value]) => other.has(key) && deepEqual(value, other.get(key)));
+	}
+
+	if (a instanceof Set) {
+
+		const other = b as Set<unknown>;
+
+		return a.size === other.size && Array.from(a.values()).every(value => other.has(value));
+	}
+
+	if (Array.isArray(a)) {
+
+		const other = b as unknown[];
+
+		return a.length === other.length && a.every((value, index) => deepEqual(value, other[index]));
+	}
+
+	const aKeys = Object.keys(a);
+	const bKeys = Object.keys(b);
+
+	return aKeys.length === bKeys.length && aKeys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
\ No newline at end of file
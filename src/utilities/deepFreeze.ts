@@ -1,6 +1,8 @@
 /**
  * Freezes a given object, preventing any changes to be made to it's properties or any nested values.
  * 
+ * Typed arrays, data views and other objects that can not be frozen are left mutable.
+ * 
  * @param object - The value to freeze.
  * 
  * @returns The frozen object.
@@ -16,6 +18,12 @@ export function deepFreeze(object: object): object {
 		return object;
 	}
 
+	// Typed arrays and data views can not be frozen while they have elements, thus their contents remain mutable.
+	if (ArrayBuffer.isView(object)) {
+
+		return object;
+	}
+
 	// Recursively freeze the each of nested object type properties on the object.
 	Object.entries(object).forEach(([key, value]) => { // eslint-disable-line @typescript-eslint/no-unused-vars
 		
@@ -27,6 +35,13 @@ export function deepFreeze(object: object): object {
 		}
 	});
 
-	// Freeze the object itself and return it.
-	return Object.freeze(object);
+	// Freeze the object itself and return it, leaving other exotic objects that refuse to be frozen, e.g. proxies, as is.
+	try {
+
+		return Object.freeze(object);
+
+	} catch {
+
+		return object;
+	}
 }
\ No newline at end of file
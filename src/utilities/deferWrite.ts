@@ -0,0 +1,210 @@
+import type { StatePersistOptions } from '../types.js';
+import type { AsyncStorage } from '../types/AsyncStorage.js';
+import type { SyncStorage } from '../types/SyncStorage.js';
+
+/**
+ * A write to a storage key that is deferred to coalesce frequent writes.
+ */
+type DeferredWrite = {
+
+	/**
+	 * The latest write waiting to run, if any.
+	 */
+	write?: () => void;
+
+	/**
+	 * The timer that runs the write, or ends the throttle window.
+	 */
+	timer?: ReturnType<typeof setTimeout>;
+
+	/**
+	 * The time by which the write must run when debounced with a throttle, in milliseconds since the epoch.
+	 */
+	deadline?: number;
+};
+
+/**
+ * The deferred writes of each storage mechanism, keyed by storage key.
+ */
+const _deferred = new Map<SyncStorage | AsyncStorage, Map<string, DeferredWrite>>();
+
+/**
+ * Whether the page lifecycle listeners that flush deferred writes are registered.
+ */
+let _listening = false;
+
+/**
+ * Removes a deferred write once it has no more work waiting.
+ * 
+ * @param storage - The storage mechanism of the write.
+ * @param key - The storage key of the write.
+ * 
+ * @returns Nothing.
+ */
+function removeDeferred(storage: SyncStorage | AsyncStorage, key: string): void {
+
+	const writes = _deferred.get(storage);
+
+	writes?.delete(key);
+
+	if (writes?.size === 0) {
+		_deferred.delete(storage);
+	}
+}
+
+/**
+ * Runs the write waiting on a deferred write, if any.
+ * 
+ * @param deferred - The deferred write.
+ * 
+ * @returns Nothing.
+ */
+function runDeferred(deferred: DeferredWrite): void {
+
+	const write = deferred.write;
+
+	deferred.write = undefined;
+
+	write?.();
+}
+
+/**
+ * Starts a throttle window, running the latest write requested within the window once it ends, and starting a new window if so.
+ * 
+ * @param storage - The storage mechanism of the write.
+ * @param key - The storage key of the write.
+ * @param deferred - The deferred write.
+ * @param throttle - The length of the window in milliseconds.
+ * 
+ * @returns Nothing.
+ */
+function startThrottle(storage: SyncStorage | AsyncStorage, key: string, deferred: DeferredWrite, throttle: number): void {
+
+	deferred.timer = setTimeout(() => {
+
+		if (!deferred.write) {
+			removeDeferred(storage, key);
+			return;
+		}
+
+		runDeferred(deferred);
+		startThrottle(storage, key, deferred, throttle);
+
+	}, throttle);
+}
+
+/**
+ * Registers the page lifecycle listeners that flush the deferred writes when the page is hidden or unloaded, where supported.
+ * 
+ * @returns Nothing.
+ */
+function listenForPageHide(): void {
+
+	if (_listening || typeof globalThis.addEventListener !== 'function') {
+		return;
+	}
+
+	_listening = true;
+
+	globalThis.addEventListener('pagehide', flushDeferredWrites);
+
+	if (typeof document !== 'undefined') {
+
+		document.addEventListener('visibilitychange', () => {
+
+			if (document.visibilityState === 'hidden') {
+				flushDeferredWrites();
+			}
+		});
+	}
+}
+
+/**
+ * Requests a write to a storage key, deferring it to coalesce frequent writes into fewer writes, if configured.
+ * 
+ * Debounced writes run once no new write was requested for the debounce time, or once the throttle time passed since the first
+ * coalesced write, if both are set. Throttled writes run immediately, and then at most once per throttle time, with the latest write.
+ * 
+ * @param storage - The storage mechanism to write to.
+ * @param key - The storage key to write.
+ * @param write - The function that performs the write.
+ * @param options - How often to write to storage, running the write immediately if not set.
+ * 
+ * @returns Nothing.
+ */
+export function deferWrite(storage: SyncStorage | AsyncStorage, key: string, write: () => void, { debounce, throttle }: StatePersistOptions = {}): void {
+
+	const existing = _deferred.get(storage)?.get(key);
+
+	// Write immediately if not deferred, replacing any write that is still waiting.
+	if (!debounce && !throttle) {
+
+		if (existing) {
+			clearTimeout(existing.timer);
+			removeDeferred(storage, key);
+		}
+
+		write();
+		return;
+	}
+
+	listenForPageHide();
+
+	const deferred: DeferredWrite = existing ?? {};
+
+	if (!existing) {
+
+		if (!_deferred.has(storage)) {
+			_deferred.set(storage, new Map());
+		}
+
+		_deferred.get(storage)?.set(key, deferred);
+	}
+
+	deferred.write = write;
+
+	// Throttled writes run immediately when outside a throttle window, and otherwise once the window ends.
+	if (!debounce) {
+
+		if (!existing) {
+			runDeferred(deferred);
+			startThrottle(storage, key, deferred, throttle as number);
+		}
+
+		return;
+	}
+
+	// Debounced writes restart the wait on every write, until the throttle deadline, if any.
+	const now = Date.now();
+
+	if (throttle && deferred.deadline === undefined) {
+		deferred.deadline = now + throttle;
+	}
+
+	clearTimeout(deferred.timer);
+
+	deferred.timer = setTimeout(() => {
+
+		removeDeferred(storage, key);
+		runDeferred(deferred);
+
+	}, Math.max(0, Math.min(debounce, (deferred.deadline ?? Infinity) - now)));
+}
+
+/**
+ * Runs all deferred writes immediately, e.g. before the page is unloaded.
+ * 
+ * @returns Nothing.
+ */
+export function flushDeferredWrites(): void {
+
+	for (const [storage, writes] of Array.from(_deferred.entries())) {
+
+		for (const [key, deferred] of Array.from(writes.entries())) {
+
+			clearTimeout(deferred.timer);
+			removeDeferred(storage, key);
+			runDeferred(deferred);
+		}
+	}
+}
\ No newline at end of file
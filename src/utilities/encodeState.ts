@@ -0,0 +1,45 @@
+import type { StateEnvelope, StateOptions } from '../types.js';
+import { isDefined } from './isDefined.js';
+
+/**
+ * Converts a property value into the form it is saved in storage, recording the value version and expiry time, and serializing it if configured.
+ * 
+ * @param value - The property value to convert.
+ * @param options - The options that control how the value is persisted.
+ * 
+ * @returns The value to save in storage, or the value as is if it is not set.
+ */
+export function encodeState<T>(value: T, options: StateOptions<T> = {}): unknown {
+
+	// Values that are not set are removed from storage, thus do not need to be converted.
+	if (!isDefined(value)) {
+		return value;
+	}
+
+	let storageValue: unknown = value;
+
+	// Record the value version and expiry time alongside the value.
+	const expiresAt = isDefined(options.expiresAt) ? Number(options.expiresAt) : isDefined(options.ttl) ? Date.now() + (options.ttl as number) : undefined;
+
+	if (isDefined(options.version) || isDefined(expiresAt)) {
+
+		const envelope: StateEnvelope<T> = { $state: {}, value };
+
+		if (isDefined(options.version)) {
+			envelope.$state.version = options.version;
+		}
+
+		if (isDefined(expiresAt)) {
+			envelope.$state.expiresAt = expiresAt;
+		}
+
+		storageValue = envelope;
+	}
+
+	// Convert the value to a string.
+	if (options.serializer) {
+		storageValue = options.serializer.serialize(storageValue);
+	}
+
+	return storageValue;
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+import type { ObservableStorage } from '../types/ObservableStorage.js';
+
+/**
+ * Determine if a given storage mechanism can notify subscribers of changes made to storage from outside of the app.
+ * 
+ * @param storage - The storage mechanism to check.
+ * 
+ * @returns True if the storage is observable, otherwise false.
+ */
+export function isObservableStorage(storage: any): storage is ObservableStorage { // eslint-disable-line @typescript-eslint/no-explicit-any
+
+	return Boolean(storage) && typeof storage.subscribe === 'function' && typeof storage.unsubscribe === 'function'; // eslint-disable-line @typescript-eslint/no-unsafe-member-access
+}
\ No newline at end of file
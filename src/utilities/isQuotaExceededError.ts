@@ -0,0 +1,18 @@
+/**
+ * Determine if an error was thrown because a storage mechanism ran out of space, e.g. a `QuotaExceededError` DOMException, including the
+ * legacy names and codes reported by older browsers.
+ * 
+ * @param error - The error to check.
+ * 
+ * @returns True if the error is a quota exceeded error, otherwise false.
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+
+	if (typeof error !== 'object' || error === null) {
+		return false;
+	}
+
+	const { name, code } = error as { name?: unknown, code?: unknown };
+
+	return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import type { StateEnvelope } from '../types.js';
+
+/**
+ * Determine if a value read from storage is a state envelope.
+ * 
+ * @param value - The value to check.
+ * 
+ * @returns True if the value is a state envelope, otherwise false.
+ */
+export function isStateEnvelope(value: unknown): value is StateEnvelope<unknown> {
+
+	if (typeof value !== 'object' || value === null) {
+		return false;
+	}
+
+	const envelope = value as StateEnvelope<unknown>;
+
+	return typeof envelope.$state === 'object' && envelope.$state !== null && Object.prototype.hasOwnProperty.call(envelope, 'value');
+}
\ No newline at end of file
@@ -0,0 +1,16 @@
+import type { StateEnvelope } from '../types.js';
+
+/**
+ * Determine if a value read from storage has expired.
+ * 
+ * @param envelope - The state envelope the value was saved in.
+ * @param now - The current time in milliseconds since the epoch, defaults to the current system time.
+ * 
+ * @returns True if the value has an expiry time that has passed, otherwise false.
+ */
+export function isStateExpired(envelope: StateEnvelope<unknown>, now = Date.now()): boolean {
+
+	const expiresAt = envelope.$state.expiresAt;
+
+	return typeof expiresAt === 'number' && expiresAt <= now;
+}
\ No newline at end of file
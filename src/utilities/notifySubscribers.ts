@@ -0,0 +1,105 @@
+import type { ImmutableMode, PropertyChange, PropertyChangeSource } from '../types.js';
+import { deepCopy } from './deepCopy.js';
+import { deepFreeze } from './deepFreeze.js';
+import { shallowEqual } from './shallowEqual.js';
+
+/**
+ * A subscriber registered on a property, along with the slice of the property value it observes, if any.
+ */
+export type PropertySubscriber<T> = {
+
+	/**
+	 * The function to call when the property value, or the selected slice of it, changes.
+	 */
+	handler: (value: any, change: PropertyChange<T>) => void; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+	/**
+	 * The function to select the observed slice of the property value with, if any.
+	 */
+	select?: (value: T) => unknown;
+
+	/**
+	 * The function to compare the previous and new selected slice with, defaults to a shallow equality check.
+	 */
+	equals?: (a: any, b: any) => boolean; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+	/**
+	 * The selected slice the subscriber was last notified of.
+	 */
+	slice?: unknown;
+
+	/**
+	 * Whether to unsubscribe the subscriber after it is notified once.
+	 */
+	once?: boolean;
+
+	/**
+	 * Unsubscribes the subscriber.
+	 */
+	unsubscribe: () => void;
+};
+
+/**
+ * Notifies a single subscriber, unsubscribing it first if it should only be notified once.
+ * 
+ * @param subscriber - The subscriber to notify.
+ * @param value - The property value, or the selected slice of it.
+ * @param change - The details of the change.
+ * 
+ * @returns Nothing.
+ */
+export function notifySubscriber<T>(subscriber: PropertySubscriber<T>, value: unknown, change: PropertyChange<T>): void {
+
+	if (subscriber.once) {
+		subscriber.unsubscribe();
+	}
+
+	subscriber.handler(value, change);
+}
+
+/**
+ * Notifies the subscribers of a property that the property value has changed. Subscribers that observe a slice of the property value
+ * are only notified when the selected slice changes.
+ * 
+ * @param subscribers - The subscribers to notify.
+ * @param newValue - The new property value.
+ * @param previous - The property value before the change.
+ * @param source - The source of the change.
+ * @param immutable - The immutable mode of the property, emitting frozen values in the "freeze" mode, defaults to false.
+ * 
+ * @returns Nothing.
+ */
+export function notifySubscribers<T>(subscribers: PropertySubscriber<T>[], newValue: T, previous: T, source: PropertyChangeSource, immutable: ImmutableMode = false): void {
+
+	const frozen = immutable === 'freeze';
+
+	if (frozen) {
+		deepFreeze(newValue as object);
+		deepFreeze(previous as object);
+	}
+
+	// Notify the subscribers registered when the change was made, allowing subscribers to unsubscribe while being notified.
+	for (const subscriber of [...subscribers]) {
+
+		// Emit copies of the values to prevent mutation of the property value by reference, unless the values are frozen.
+		const value = frozen ? newValue : deepCopy(newValue) as T;
+		const change: PropertyChange<T> = { value, previous: frozen ? previous : deepCopy(previous) as T, source };
+
+		if (!subscriber.select) {
+			notifySubscriber(subscriber, value, change);
+			continue;
+		}
+
+		// Only notify the subscriber if the selected slice of the value changed.
+		const slice = subscriber.select(value);
+		const equals = subscriber.equals ?? shallowEqual;
+
+		if (equals(subscriber.slice, slice)) {
+			continue;
+		}
+
+		subscriber.slice = slice;
+
+		notifySubscriber(subscriber, slice, change);
+	}
+}
\ No newline at end of file
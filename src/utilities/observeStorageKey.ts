@@ -0,0 +1,36 @@
+import type { StorageChangeHandler } from '../types.js';
+import { AsyncStorage } from '../types/AsyncStorage.js';
+import { SyncStorage } from '../types/SyncStorage.js';
+import { isObservableStorage } from './isObservableStorage.js';
+
+/**
+ * Listens for changes made to a key from outside of the app, e.g. by another browser tab, if supported by the storage mechanism.
+ * 
+ * Changes that re-hydrate properties, e.g. when the namespace of a NamespacedStorage is switched, are always listened for, while other
+ * changes are only listened for if `sync` is enabled.
+ * 
+ * @param storage - The storage mechanism to listen to.
+ * @param key - The key to listen for changes on.
+ * @param handler - The function to call with the new value when the key is set, removed or cleared.
+ * @param sync - Whether to listen for all changes made from outside of the app, rather than only changes that re-hydrate properties, defaults to true.
+ * 
+ * @returns The storage change subscriber that was registered, or undefined if the storage can not be observed.
+ */
+export function observeStorageKey(storage: SyncStorage | AsyncStorage, key: string, handler: (value: unknown) => void, sync: boolean = true): StorageChangeHandler | undefined {
+
+	if (!isObservableStorage(storage)) {
+		return undefined;
+	}
+
+	const subscriber: StorageChangeHandler = (change) => {
+
+		// Only notify of changes to the key, or when all values were cleared from storage.
+		if ((change.key === undefined || change.key === key) && (sync || change.rehydrate)) {
+			handler(change.value);
+		}
+	};
+
+	storage.subscribe(subscriber);
+
+	return subscriber;
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import type { StorageChangeHandler } from '../types.js';
+import { AsyncStorage } from '../types/AsyncStorage.js';
+import { ObservableStorage } from '../types/ObservableStorage.js';
+import { SyncStorage } from '../types/SyncStorage.js';
+import { isObservableStorage } from './isObservableStorage.js';
+import { observeStorageKey } from './observeStorageKey.js';
+
+/**
+ * Removes the storage change subscribers of owners that were garbage collected.
+ */
+const subscriptions = new FinalizationRegistry<{ storage: ObservableStorage, subscriber: StorageChangeHandler }>(({ storage, subscriber }) => {
+	storage.unsubscribe(subscriber);
+});
+
+/**
+ * Listens for changes made to a key from outside of the app, e.g. by another browser tab, for as long as the owner of the listener is
+ * in use, if supported by the storage mechanism.
+ * 
+ * The storage mechanism only holds a weak reference to the owner, thus the owner can be garbage collected while the listener is
+ * registered, after which the listener is removed. The handler is called with the owner, and should not itself hold a reference to it.
+ * 
+ * @param storage - The storage mechanism to listen to.
+ * @param key - The key to listen for changes on.
+ * @param owner - The object the listener belongs to, e.g. a StatefulProperty or a class instance with a decorated property.
+ * @param handler - The function to call with the owner and the new value when the key is set, removed or cleared.
+ * @param sync - Whether to listen for all changes made from outside of the app, rather than only changes that re-hydrate properties, defaults to true.
+ * 
+ * @returns The storage change subscriber that was registered, or undefined if the storage can not be observed.
+ */
+export function observeStorageKeyWeakly<Owner extends object>(storage: SyncStorage | AsyncStorage, key: string, owner: Owner, handler: (owner: Owner, value: unknown) => void, sync: boolean = true): StorageChangeHandler | undefined {
+
+	if (!isObservableStorage(storage)) {
+		return undefined;
+	}
+
+	const ownerRef = new WeakRef(owner);
+
+	const subscriber = observeStorageKey(storage, key, (value) => {
+
+		const currentOwner = ownerRef.deref();
+
+		if (currentOwner) {
+			handler(currentOwner, value);
+		}
+	}, sync);
+
+	if (subscriber) {
+		subscriptions.register(owner, { storage, subscriber });
+	}
+
+	return subscriber;
+}
\ No newline at end of file
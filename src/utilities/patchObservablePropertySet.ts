@@ -0,0 +1,61 @@
+import { ObservableProperty } from '../ObservableProperty.js';
+import { StateOptions } from '../types.js';
+import { AsyncStorage } from '../types/AsyncStorage.js';
+import { SyncStorage } from '../types/SyncStorage.js';
+import { scheduleWrite } from './batchUpdates.js';
+import { persistState } from './persistState.js';
+
+type GetterDescriptor = () => void;
+type SetterDescriptor = () => void;
+
+/**
+ * Patch the set function of an ObservableProperty to save the property value into storage when the set function is called.
+ * 
+ * @param storage - The storage mechanism to save the value in.
+ * @param key - The key to save the value under.
+ * @param observable - The observable property to patch.
+ * @param options - The options that control how the value is persisted, e.g. its serializer and version.
+ * 
+ * @returns Nothing.
+ */
+export function patchObservablePropertySet<T>(storage: SyncStorage | AsyncStorage, key: string, observable: ObservableProperty<T>, options: StateOptions<T> = {}): void {
+
+	// Prevent the ObservableProperty.set function from being patched if it is already is.
+
+	if (Reflect.has(observable, '_state_set_patched')) {
+		return;
+	}
+
+	// Get the property value get and set functions.
+	const observablePrototype: unknown = Object.getPrototypeOf(observable);
+
+	const propertyGetFunction: GetterDescriptor = Object.getOwnPropertyDescriptor(observablePrototype, 'get')?.value as GetterDescriptor;
+	const propertySetFunction: SetterDescriptor = Object.getOwnPropertyDescriptor(observablePrototype, 'set')?.value as SetterDescriptor;
+
+	// Override the ObservableProperty.set function to save the property value into storage when the set function is called.
+	// Note: *this* is only available in shorthand functions, thus disabling the eslint rule. See https://stackoverflow.com/a/53767500
+	Object.defineProperty(observable, 'set', { // eslint-disable-line object-shorthand
+		// kind: 'method',
+		// placement: 'own',
+		value(...args: unknown[]) {
+
+			// Call the original ObservableProperty.set function to set the value.
+			propertySetFunction.apply(this, args as []);
+
+			// Save the new property value in storage, deferred until the batch completes if the property is set within a batch.
+			scheduleWrite(this as object, () => {
+
+				// Get the new property value in serializable form, i.e. not a function, once the write runs.
+				persistState(storage, key, (): unknown => propertyGetFunction.apply(this), options);
+			});
+		},
+		writable: true,
+		enumerable: false,
+		configurable: true
+	});
+
+	// Keep track that the ObservableProperty.set function has been patched.
+	Object.defineProperty(observable, '_state_set_patched', {
+		value: true
+	});
+}
\ No newline at end of file
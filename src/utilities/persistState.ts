@@ -0,0 +1,21 @@
+import type { StateOptions } from '../types.js';
+import { AsyncStorage } from '../types/AsyncStorage.js';
+import { SyncStorage } from '../types/SyncStorage.js';
+import { deferWrite } from './deferWrite.js';
+import { encodeState } from './encodeState.js';
+import { storeValue } from './storeValue.js';
+
+/**
+ * Saves a property value in storage, or removes it from storage if not set, coalescing frequent writes if configured by the `persist` option.
+ * 
+ * @param storage - The storage mechanism to save the value in.
+ * @param key - The key to save the value under.
+ * @param getValue - The function to get the property value to save with, called when the write runs.
+ * @param options - The options that control how the value is persisted.
+ * 
+ * @returns Nothing.
+ */
+export function persistState<T>(storage: SyncStorage | AsyncStorage, key: string, getValue: () => T, options: StateOptions<T> = {}): void {
+
+	deferWrite(storage, key, () => storeValue(storage, key, encodeState(getValue(), options)), options.persist);
+}
\ No newline at end of file
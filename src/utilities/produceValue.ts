@@ -0,0 +1,330 @@
+import { deepCopy } from './deepCopy.js';
+import { deepEqual } from './deepEqual.js';
+
+/**
+ * The state of a draft, tracking the copy of its base value that changes are made to.
+ */
+type DraftState = {
+
+	/**
+	 * The value the draft was created from, which is never modified.
+	 */
+	base: Record<PropertyKey, unknown>;
+
+	/**
+	 * The shallow copy of the base value that changes are made to, created on the first change, or when a nested draft is created.
+	 */
+	copy?: Record<PropertyKey, unknown>;
+
+	/**
+	 * Whether the draft, or any of its nested drafts, was changed.
+	 */
+	modified: boolean;
+
+	/**
+	 * The keys of the values in the copy that can not be drafted, and were copied when read, as they may be changed in place.
+	 */
+	copied: Set<PropertyKey>;
+
+	/**
+	 * The state of the draft that contains this draft, if any.
+	 */
+	parent?: DraftState;
+
+	/**
+	 * Revokes the draft, preventing it from being used once the value is produced.
+	 */
+	revoke: () => void;
+};
+
+/**
+ * The states of all drafts, keyed by their proxy.
+ */
+const _drafts = new WeakMap<object, DraftState>();
+
+/**
+ * Check if a value can be drafted, i.e. a plain object or an array.
+ * 
+ * @param value - The value to check.
+ * 
+ * @returns True if the value can be drafted, otherwise false.
+ */
+function isDraftable(value: unknown): value is Record<PropertyKey, unknown> {
+
+	if (typeof value !== 'object' || value === null) {
+		return false;
+	}
+
+	if (Array.isArray(value)) {
+		return true;
+	}
+
+	const prototype = Object.getPrototypeOf(value) as unknown;
+
+	return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Gets the current value of a draft, i.e. its copy if changed, otherwise its base value.
+ * 
+ * @param state - The draft state.
+ * 
+ * @returns The current value.
+ */
+function latest(state: DraftState): Record<PropertyKey, unknown> {
+
+	return state.copy ?? state.base;
+}
+
+/**
+ * Makes a shallow copy of the base value of a draft to change, if not yet copied.
+ * 
+ * @param state - The draft state.
+ * 
+ * @returns The copy.
+ */
+function prepareCopy(state: DraftState): Record<PropertyKey, unknown> {
+
+	if (!state.copy) {
+		state.copy = (Array.isArray(state.base) ? [...state.base] : Object.assign(Object.create(Object.getPrototypeOf(state.base) as object | null) as object, state.base)) as Record<PropertyKey, unknown>;
+	}
+
+	return state.copy;
+}
+
+/**
+ * Marks a draft, and all the drafts that contain it, as changed.
+ * 
+ * @param state - The draft state.
+ * 
+ * @returns Nothing.
+ */
+function markChanged(state: DraftState): void {
+
+	for (let current: DraftState | undefined = state; current && !current.modified; current = current.parent) {
+
+		prepareCopy(current);
+
+		current.modified = true;
+	}
+}
+
+/**
+ * Creates a draft of a value, recording changes made to it in a copy of the value, without modifying the value itself.
+ * 
+ * @param base - The value to draft.
+ * @param parent - The state of the draft that contains the value, if any.
+ * @param states - The states of all drafts created for the value being produced, to add the draft state to.
+ * 
+ * @returns The draft.
+ */
+function createDraft(base: Record<PropertyKey, unknown>, parent: DraftState | undefined, states: DraftState[]): Record<PropertyKey, unknown> {
+
+	// Arrays are drafted with an array target, as required by the proxy invariants of the array "length" property.
+	const { proxy, revoke } = Proxy.revocable<Record<PropertyKey, unknown>>((Array.isArray(base) ? [] : {}) as Record<PropertyKey, unknown>, {
+
+		get(target, property): unknown {
+
+			const source = latest(state);
+			const value = source[property];
+
+			// Inherited values, e.g. array functions, are returned as is.
+			if (!Object.prototype.hasOwnProperty.call(source, property)) {
+				return value;
+			}
+
+			// Values that are already drafted, or changed, are returned as is.
+			if (typeof value !== 'object' || value === null || _drafts.has(value) || value !== state.base[property]) {
+				return value;
+			}
+
+			// Nested plain objects and arrays are drafted on first access, copying them only once they are changed.
+			if (isDraftable(value)) {
+
+				const draft = createDraft(value, state, states);
+
+				prepareCopy(state)[property] = draft;
+
+				return draft;
+			}
+
+			// Other objects, e.g. dates, maps and sets, can not be drafted, and are copied instead, as they may be changed in place.
+			state.copied.add(property);
+
+			return prepareCopy(state)[property] = deepCopy(value) as unknown;
+		},
+
+		set(target, property, value): boolean {
+
+			const source = latest(state);
+
+			// Skip values that do not change the draft.
+			if (!state.modified && source[property] === value && (value !== undefined || Object.prototype.hasOwnProperty.call(source, property))) {
+				return true;
+			}
+
+			markChanged(state);
+
+			prepareCopy(state)[property] = value;
+
+			return true;
+		},
+
+		deleteProperty(target, property): boolean {
+
+			if (Object.prototype.hasOwnProperty.call(latest(state), property)) {
+
+				markChanged(state);
+
+				delete prepareCopy(state)[property];
+			}
+
+			return true;
+		},
+
+		has(target, property): boolean {
+
+			return property in latest(state);
+		},
+
+		ownKeys(): (string | symbol)[] {
+
+			return Reflect.ownKeys(latest(state));
+		},
+
+		getOwnPropertyDescriptor(target, property): PropertyDescriptor | undefined {
+
+			const source = latest(state);
+			const descriptor = Reflect.getOwnPropertyDescriptor(source, property);
+
+			if (!descriptor) {
+				return undefined;
+			}
+
+			return {
+				value: source[property],
+				writable: true,
+				enumerable: descriptor.enumerable,
+				configurable: !Array.isArray(base) || property !== 'length'
+			};
+		},
+
+		getPrototypeOf(): object | null {
+
+			return Object.getPrototypeOf(base) as object | null;
+		},
+
+		defineProperty(): boolean {
+
+			throw new Error(`produceValue - properties can not be defined on a draft, set them instead.`);
+		}
+	});
+
+	const state: DraftState = { base, modified: false, copied: new Set(), parent, revoke };
+
+	_drafts.set(proxy, state);
+	states.push(state);
+
+	return proxy;
+}
+
+/**
+ * Resolves the final value of a draft, or of a value assigned to a draft, replacing any nested drafts with their final values.
+ * 
+ * Unchanged drafts resolve to their base value, sharing it with the new value, while new values are copied to prevent them from being
+ * modified by reference.
+ * 
+ * @param value - The value to resolve.
+ * 
+ * @returns The final value.
+ */
+function finalize(value: unknown): unknown {
+
+	if (typeof value !== 'object' || value === null) {
+		return value;
+	}
+
+	const state = _drafts.get(value);
+
+	// Unchanged drafts resolve to their base value, and changed drafts to their copy.
+	if (state) {
+
+		if (!state.modified) {
+			return state.base;
+		}
+
+		const copy = latest(state);
+
+		// Skip values that are shared with the base value.
+		for (const key of Reflect.ownKeys(copy)) {
+
+			if (copy[key] !== state.base[key]) {
+				copy[key] = finalize(copy[key]);
+			}
+		}
+
+		return copy;
+	}
+
+	// New plain objects and arrays are copied, resolving any drafts they contain.
+	if (isDraftable(value)) {
+
+		const copy = (Array.isArray(value) ? [] : Object.create(Object.getPrototypeOf(value) as object | null)) as Record<PropertyKey, unknown>;
+
+		for (const key of Reflect.ownKeys(value)) {
+			copy[key] = finalize(value[key]);
+		}
+
+		return copy;
+	}
+
+	return deepCopy(value) as unknown;
+}
+
+/**
+ * Produces a new value by calling a function with a draft of the current value, i.e. a proxy that records the changes made to it in a
+ * copy of the value, without modifying the current value itself.
+ * 
+ * The new value shares all nested values that were not changed with the current value, avoiding copying the complete value. Values that
+ * can not be drafted, e.g. numbers and strings, are passed to the function as is, and are replaced by returning a new value from the
+ * function. The current value is left unchanged if the function throws.
+ * 
+ * @param base - The current value.
+ * @param recipe - The function to change the draft with, optionally returning a replacement value instead.
+ * 
+ * @returns The new value.
+ */
+export function produceValue<T>(base: T, recipe: (draft: T) => T | void): T {
+
+	const states: DraftState[] = [];
+
+	try {
+
+		const draft = isDraftable(base) ? createDraft(base, undefined, states) as T : base;
+		const result = recipe(draft);
+
+		// Mark the drafts with copied values that were changed in place as changed.
+		for (const state of states) {
+
+			if (!state.modified && Array.from(state.copied).some(key => !deepEqual(state.copy?.[key], state.base[key]))) {
+				markChanged(state);
+			}
+		}
+
+		// If no replacement value is returned, then the value is the changed draft.
+		if (result === undefined) {
+			return finalize(draft) as T;
+		}
+
+		if (draft !== base && _drafts.get(draft as object)?.modified && result !== draft) {
+			throw new Error(`produceValue - the function must either change the draft or return a replacement value, not both.`);
+		}
+
+		return finalize(result) as T;
+
+	} finally {
+
+		// Prevent drafts from being changed once the value is produced.
+		states.forEach(state => state.revoke());
+	}
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+import type { StateKey } from '../types.js';
+
+import { isFunction } from './isFunction.js';
+
+/**
+ * Resolves the storage key of a property for a given class instance.
+ * 
+ * @param key - The storage key, or the function that returns the storage key for the instance.
+ * @param instance - The class instance the property belongs to.
+ * 
+ * @returns The resolved storage key.
+ */
+export function resolveKey<This>(key: StateKey<This>, instance: This): string {
+
+	if (isFunction(key)) {
+		return (key as (instance: This) => string)(instance);
+	}
+
+	return key as string;
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+import type { StateOptions } from '../types.js';
+import { AsyncStorage } from '../types/AsyncStorage.js';
+import { SyncStorage } from '../types/SyncStorage.js';
+import { DecodedState, decodeState } from './decodeState.js';
+import { encodeState } from './encodeState.js';
+import { isDefined } from './isDefined.js';
+import { isPromise } from './isPromise.js';
+import { storeValue } from './storeValue.js';
+
+/**
+ * Updates or removes a value in storage if it was migrated or discarded when converted back into a property value.
+ * 
+ * @param storage - The storage mechanism the value was read from.
+ * @param key - The key the value was read from.
+ * @param decoded - The property value, and the action to take on the value in storage.
+ * @param options - The options that control how the value is persisted.
+ * 
+ * @returns The property value, or undefined if no usable value was stored.
+ */
+function applyState<T>(storage: SyncStorage | AsyncStorage, key: string, { value, action, expiresAt }: DecodedState<T>, options: StateOptions<T>): T | undefined {
+
+	// Keep the expiry time of the value in storage, as updating the value does not make it any more recent.
+	if (action === 'update') {
+		storeValue(storage, key, encodeState(value, isDefined(expiresAt) ? { ...options, expiresAt } : options));
+	}
+
+	if (action === 'remove') {
+		storeValue(storage, key, undefined);
+	}
+
+	return value;
+}
+
+/**
+ * Converts a value read from storage back into a property value, and updates or removes the value in storage if it was migrated or discarded.
+ * 
+ * Asynchronous schemas can not validate the value without waiting, thus the property value is returned as a promise once the schema
+ * completes the validation.
+ * 
+ * @param storage - The storage mechanism the value was read from.
+ * @param key - The key the value was read from.
+ * @param storageValue - The value read from storage.
+ * @param options - The options that control how the value is persisted.
+ * 
+ * @returns The property value, or undefined if no usable value was stored, as a promise for asynchronous schemas.
+ */
+export function restoreState<T>(storage: SyncStorage | AsyncStorage, key: string, storageValue: unknown, options: StateOptions<T> = {}): T | undefined | Promise<T | undefined> {
+
+	const decoded = decodeState<T>(storageValue, options);
+
+	if (isPromise(decoded)) {
+		return (decoded as Promise<DecodedState<T>>).then((asyncDecoded) => applyState(storage, key, asyncDecoded, options));
+	}
+
+	return applyState(storage, key, decoded as DecodedState<T>, options);
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+/**
+ * Determine if two values are shallowly equal, comparing the items of arrays and the own properties of objects by reference.
+ * 
+ * @param a - The first value to compare.
+ * @param b - The second value to compare.
+ * 
+ * @returns True if the values are shallowly equal, otherwise false.
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+
+	if (Object.is(a, b)) {
+		return true;
+	}
+
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || Array.isArray(a) !== Array.isArray(b)) {
+		return false;
+	}
+
+	const aKeys = Object.keys(a);
+	const bKeys = Object.keys(b);
+
+	return aKeys.length === bKeys.length && aKeys.every(key => Object.prototype.hasOwnProperty.call(b, key) && Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
\ No newline at end of file
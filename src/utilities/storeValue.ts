@@ -1,24 +1,31 @@
 import { AsyncStorage } from '../types/AsyncStorage.js';
+import { Serializer } from '../types/Serializer.js';
 import { SyncStorage } from '../types/SyncStorage.js';
+import { enqueueWrite } from './writeQueue.js';
 
 /**
  * Saves a value in storage, or remove it from storage if not set.
  * 
+ * Writes to the same key run one at a time, keeping only the latest value while a write runs, and failed writes are retried before they
+ * are reported to the `StateManager.onWriteError` subscribers.
+ * 
  * @param storage - The storage mechanism to save the value in.
  * @param key - The key to save the value under.
  * @param value - The value to save.
- * @param encoder - The string encoding function to apply to property values before saving it in storage.
+ * @param serializer - The serializer to convert the value to a string with before saving it in storage, if any.
  * 
  * @returns Nothing.
  */
-export function storeValue(storage: SyncStorage | AsyncStorage, key: string, value?: any): void { // eslint-disable-line @typescript-eslint/no-explicit-any
+export function storeValue(storage: SyncStorage | AsyncStorage, key: string, value?: any, serializer?: Serializer): void { // eslint-disable-line @typescript-eslint/no-explicit-any
 
 	// Remove the value from storage if it is not set.
 	if (value === undefined || value === null) {
-		void storage.remove(key);
+		enqueueWrite(storage, key, () => storage.remove(key));
 		return;
 	}
 
 	// Save the new value to storage.
-	void storage.set(key, value);
+	const storageValue: unknown = serializer ? serializer.serialize(value) : value;
+
+	enqueueWrite(storage, key, () => storage.set(key, storageValue));
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+import type { ReadableProperty } from '../types/ReadableProperty.js';
+
+/**
+ * Creates an async iterator that yields each new value of a property, from the moment it is created until it is returned, e.g. by
+ * breaking out of a `for await` loop. Values set faster than they are consumed are buffered, and yielded in order.
+ * 
+ * @param property - The property to iterate the values of.
+ * 
+ * @returns The async iterator.
+ */
+export function toAsyncIterator<T>(property: ReadableProperty<T>): AsyncIterableIterator<T> {
+
+	const bufferedValues: T[] = [];
+	const pendingReads: ((result: IteratorResult<T>) => void)[] = [];
+	let done = false;
+
+	const subscription = property.subscribe((value: T) => {
+
+		const read = pendingReads.shift();
+
+		if (read) {
+			read({ value, done: false });
+		} else {
+			bufferedValues.push(value);
+		}
+	});
+
+	const iterator: AsyncIterableIterator<T> = {
+		next(): Promise<IteratorResult<T>> {
+
+			if (bufferedValues.length > 0) {
+				return Promise.resolve({ value: bufferedValues.shift() as T, done: false });
+			}
+
+			if (done) {
+				return Promise.resolve({ value: undefined, done: true });
+			}
+
+			return new Promise(resolve => pendingReads.push(resolve));
+		},
+		return(): Promise<IteratorResult<T>> {
+
+			// Stop observing the property, and complete any reads waiting for a value.
+			done = true;
+			subscription.unsubscribe();
+			bufferedValues.length = 0;
+			pendingReads.splice(0).forEach(read => read({ value: undefined, done: true }));
+
+			return Promise.resolve({ value: undefined, done: true });
+		},
+		[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+
+			return iterator;
+		}
+	};
+
+	return iterator;
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import type { InteropObservable, InteropObserver } from '../types/InteropObservable.js';
+import type { ReadableProperty } from '../types/ReadableProperty.js';
+
+/**
+ * The key Observable libraries look up the interop Observable of an object with, i.e. `Symbol.observable` if defined, or otherwise
+ * the "\@\@observable" fallback used by RxJS.
+ */
+export const OBSERVABLE_KEY: string | symbol = (Symbol as { observable?: symbol }).observable ?? '@@observable';
+
+/**
+ * Creates a minimal Observable that emits each new value of a property, allowing the property to be consumed by Observable libraries.
+ * 
+ * @param property - The property to observe.
+ * 
+ * @returns The interop Observable.
+ */
+export function toInteropObservable<T>(property: ReadableProperty<T>): InteropObservable<T> {
+
+	const observable = {
+		subscribe(observerOrNext: InteropObserver<T> | ((value: T) => void)): { unsubscribe(): void } {
+
+			const observer: InteropObserver<T> = typeof observerOrNext === 'function' ? { next: observerOrNext } : observerOrNext;
+
+			const subscription = property.subscribe((value: T) => observer.next?.(value));
+
+			return { unsubscribe: (): void => subscription() };
+		}
+	};
+
+	// Libraries verify that an interop Observable returns itself from its own interop function.
+	Object.defineProperty(observable, OBSERVABLE_KEY, { value: () => observable });
+
+	return observable;
+}
\ No newline at end of file
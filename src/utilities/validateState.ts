@@ -0,0 +1,19 @@
+import type { StateValidator } from '../types.js';
+import type { StandardSchemaResult } from '../types/StandardSchema.js';
+
+/**
+ * Validates a value restored from storage, using either a type guard function or a Standard Schema compatible validator.
+ * 
+ * @param value - The value to validate.
+ * @param validate - The type guard function or Standard Schema compatible validator to validate the value with.
+ * 
+ * @returns The validated value, which may be transformed by a schema, or the problems found, as a promise for asynchronous schemas.
+ */
+export function validateState<T>(value: unknown, validate: StateValidator<T>): StandardSchemaResult<T> | Promise<StandardSchemaResult<T>> {
+
+	if (typeof validate === 'function') {
+		return validate(value) ? { value } : { issues: [{ message: 'The value failed validation.' }] };
+	}
+
+	return validate['~standard'].validate(value);
+}
\ No newline at end of file
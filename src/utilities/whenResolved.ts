@@ -0,0 +1,22 @@
+import { isPromise } from './isPromise.js';
+
+/**
+ * Calls a function with a value, waiting for the value to resolve first if it is a promise. The reason a promise rejects with is
+ * logged to the console, as there is no caller left to report it to.
+ * 
+ * @param value - The value, or the promise that resolves to the value.
+ * @param callback - The function to call with the value.
+ * 
+ * @returns Nothing.
+ */
+export function whenResolved<T>(value: T | Promise<T>, callback: (value: T) => void): void {
+
+	if (isPromise(value)) {
+
+		(value as Promise<T>).then(callback).catch((err: unknown) => console.error(err));
+
+		return;
+	}
+
+	callback(value as T);
+}
\ No newline at end of file
@@ -0,0 +1,208 @@
+import type { StorageWriteError, StorageWriteErrorHandler, StorageWriteRetry } from '../types.js';
+import type { AsyncStorage } from '../types/AsyncStorage.js';
+import type { Subscription } from '../types/Subscription.js';
+import type { SyncStorage } from '../types/SyncStorage.js';
+import { createSubscription } from './createSubscription.js';
+import { isPromise } from './isPromise.js';
+
+/**
+ * The writes of a single storage key, running one at a time.
+ */
+type WriteQueue = {
+
+	/**
+	 * The running write, including its retries, and the writes requested while it runs.
+	 */
+	running?: Promise<void>;
+
+	/**
+	 * The latest write requested while another write runs, replacing any earlier write that is yet to run.
+	 */
+	pending?: () => unknown;
+};
+
+/**
+ * The write queues of each storage mechanism, keyed by storage key.
+ */
+const _queues = new Map<SyncStorage | AsyncStorage, Map<string, WriteQueue>>();
+
+/**
+ * The subscribers to call whenever a write fails after retrying.
+ */
+const _errorHandlers = new Set<StorageWriteErrorHandler>();
+
+/**
+ * The options that control how failed writes are retried.
+ */
+export const writeRetry: StorageWriteRetry = { retries: 3, delay: 100 };
+
+/**
+ * Runs a write, converting its outcome into a promise.
+ * 
+ * @param write - The write to run.
+ * 
+ * @returns The outcome of the write.
+ */
+function attemptWrite(write: () => unknown): Promise<unknown> {
+
+	try {
+		return Promise.resolve(write());
+	} catch (err) {
+		return Promise.reject(err);
+	}
+}
+
+/**
+ * Reports a failed write to the error subscribers, or logs it to the console if there are none.
+ * 
+ * @param error - The details of the failed write.
+ * 
+ * @returns Nothing.
+ */
+function reportWriteError(error: StorageWriteError): void {
+
+	if (_errorHandlers.size === 0) {
+		console.error(`StateManager - "${error.key}" could not be saved into storage after ${error.attempts} attempts.`, error.error);
+		return;
+	}
+
+	[..._errorHandlers].forEach(handler => handler(error));
+}
+
+/**
+ * Runs the writes of a storage key one at a time, retrying failed writes with an increasing delay, until no more writes are requested.
+ * 
+ * @param storage - The storage mechanism to write to.
+ * @param key - The storage key to write.
+ * @param queue - The write queue of the storage key.
+ * @param write - The first write to run.
+ * @param outcome - The outcome of the first attempt of the first write.
+ * 
+ * @returns Nothing.
+ */
+async function runWrites(storage: SyncStorage | AsyncStorage, key: string, queue: WriteQueue, write: () => unknown, outcome: Promise<unknown>): Promise<void> {
+
+	let attempts = 1;
+
+	for (;;) {
+
+		try {
+
+			await outcome;
+
+		} catch (err) {
+
+			// Wait before retrying the write, unless a newer write replaces it.
+			if (!queue.pending && attempts <= writeRetry.retries) {
+				await new Promise(resolve => setTimeout(resolve, writeRetry.delay * 2 ** (attempts - 1)));
+			}
+
+			if (!queue.pending) {
+
+				if (attempts <= writeRetry.retries) {
+					attempts++;
+					outcome = attemptWrite(write);
+					continue;
+				}
+
+				reportWriteError({ storage, key, error: err, attempts });
+			}
+		}
+
+		// Run the latest write requested while the write ran, if any.
+		if (!queue.pending) {
+			break;
+		}
+
+		write = queue.pending;
+		queue.pending = undefined;
+		attempts = 1;
+		outcome = attemptWrite(write);
+	}
+
+	// Clean up, by removing the queue once it has drained.
+	const queues = _queues.get(storage);
+
+	queues?.delete(key);
+
+	if (queues?.size === 0) {
+		_queues.delete(storage);
+	}
+}
+
+/**
+ * Requests a write to a storage key, e.g. to save or remove its value.
+ * 
+ * Writes to the same key run one at a time, in the order they are requested. While a write runs, only the latest write requested is
+ * kept, thus the last write always wins. Writes to synchronous storage run immediately, unless an earlier write is still retrying.
+ * Failed writes are retried with an increasing delay, and reported to the write error subscribers once all retries failed.
+ * 
+ * @param storage - The storage mechanism to write to.
+ * @param key - The storage key to write.
+ * @param write - The function that performs the write.
+ * 
+ * @returns Nothing.
+ */
+export function enqueueWrite(storage: SyncStorage | AsyncStorage, key: string, write: () => unknown): void {
+
+	// If a write is running, then replace any earlier write waiting to run.
+	const queue = _queues.get(storage)?.get(key);
+
+	if (queue) {
+		queue.pending = write;
+		return;
+	}
+
+	// Otherwise, run the write immediately, only queueing it if it is asynchronous or fails.
+	let outcome: unknown;
+
+	try {
+		outcome = write();
+	} catch (err) {
+		outcome = Promise.reject(err);
+	}
+
+	if (!isPromise(outcome)) {
+		return;
+	}
+
+	const newQueue: WriteQueue = {};
+
+	if (!_queues.has(storage)) {
+		_queues.set(storage, new Map());
+	}
+
+	_queues.get(storage)?.set(key, newQueue);
+
+	newQueue.running = runWrites(storage, key, newQueue, write, outcome as Promise<unknown>);
+}
+
+/**
+ * Waits for all requested writes to complete, including writes requested while waiting.
+ * 
+ * @returns Nothing.
+ */
+export async function flushWrites(): Promise<void> {
+
+	const runningWrites = (): Promise<void>[] => Array.from(_queues.values()).flatMap(queues => Array.from(queues.values()).map(queue => queue.running as Promise<void>));
+
+	for (let running = runningWrites(); running.length > 0; running = runningWrites()) {
+		await Promise.all(running);
+	}
+}
+
+/**
+ * Registers a subscriber to call whenever a write fails after retrying.
+ * 
+ * @param handler - The function to call with the details of the failed write.
+ * 
+ * @returns The subscription, which can be called or disposed to unsubscribe the subscriber.
+ */
+export function onWriteError(handler: StorageWriteErrorHandler): Subscription {
+
+	_errorHandlers.add(handler);
+
+	return createSubscription((): void => {
+		_errorHandlers.delete(handler);
+	});
+}
\ No newline at end of file